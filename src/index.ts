@@ -1,11 +1,47 @@
 export { Guida } from './onboarding'
+export { sanitizeHtml } from './sanitize'
+export { THEME_PRESETS } from './theme'
 export type {
   OnboardingConfig,
   OnboardingStep,
   OnboardingState,
   OnboardingEvents,
   TooltipPosition,
-  StepAction
+  TooltipSide,
+  TooltipOffset,
+  StepAction,
+  StepActionOptions,
+  StepTarget,
+  ScrollOptions,
+  StepTargetResolver,
+  TargetFallback,
+  TargetWaitOptions,
+  InteractionMode,
+  BackdropClickAction,
+  KeyboardBindings,
+  StepHook,
+  StepHookName,
+  StepChangeDirection,
+  StepChoice,
+  StepButton,
+  StepButtonVariant,
+  StepControls,
+  StepContent,
+  ContentMode,
+  StepMedia,
+  ThemeTokens,
+  ThemePreset,
+  ThemeOptions,
+  CompletionButton,
+  CompletionOptions,
+  TooltipActions,
+  TooltipRenderContext,
+  TooltipRenderer,
+  TooltipSlots,
+  NavigationGuard,
+  NavigationGuardResult,
+  TourContext,
+  TourDirection
 } from './types'
 
 import { Guida } from './onboarding'
@@ -0,0 +1,94 @@
+import type { StepMedia } from './types'
+
+/**
+ * Check whether a URL belongs to one of the allowed origins
+ */
+export function isAllowedOrigin(src: string, allowedOrigins: string[]): boolean {
+  try {
+    const { origin } = new URL(src, document.baseURI)
+    return allowedOrigins.some((allowed) => new URL(allowed).origin === origin)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Whether the user asked for less motion, in which case videos do not autoplay
+ */
+function prefersReducedMotion(): boolean {
+  return typeof window.matchMedia === 'function' && window.matchMedia('(prefers-reduced-motion: reduce)').matches
+}
+
+/**
+ * Create the element for an image, video or embed, without its container
+ */
+function createMediaElement(media: StepMedia): HTMLImageElement | HTMLVideoElement | HTMLIFrameElement {
+  switch (media.type) {
+    case 'image': {
+      const image = document.createElement('img')
+      image.src = media.src
+      image.alt = media.alt ?? ''
+      return image
+    }
+    case 'video': {
+      const video = document.createElement('video')
+      const autoplay = (media.autoplay ?? true) && !prefersReducedMotion()
+      video.src = media.src
+      video.muted = true
+      video.playsInline = true
+      video.loop = media.loop ?? true
+      video.autoplay = autoplay
+      video.controls = media.controls ?? !autoplay
+      if (media.poster) {
+        video.poster = media.poster
+      }
+      if (media.alt) {
+        video.setAttribute('aria-label', media.alt)
+      }
+      return video
+    }
+    case 'iframe': {
+      const frame = document.createElement('iframe')
+      frame.src = media.src
+      // Frames need a name for screen readers
+      frame.title = media.alt || 'Embedded media'
+      // Players can run, but not navigate the page, open popups or submit forms
+      frame.setAttribute('sandbox', 'allow-scripts allow-same-origin allow-presentation')
+      frame.allow = 'autoplay; fullscreen; picture-in-picture'
+      frame.referrerPolicy = 'strict-origin-when-cross-origin'
+      return frame
+    }
+  }
+}
+
+/**
+ * Create the media shown at the top of a step's tooltip. Embeds are only
+ * created for allowed origins, returns null otherwise. `onLoad` is called
+ * once the media has loaded or failed, when its size may have changed.
+ */
+export function createMedia(media: StepMedia, allowedOrigins: string[], onLoad: () => void): HTMLElement | null {
+  if (media.type === 'iframe' && !isAllowedOrigin(media.src, allowedOrigins)) {
+    console.warn(`Spotlight Onboarding: Media origin not allowed: ${media.src}`)
+    return null
+  }
+
+  const container = document.createElement('div')
+  container.className = `guida-media guida-media-${media.type}`
+  if (media.aspectRatio !== undefined) {
+    // Reserve the space before the media loads so the tooltip does not jump
+    container.style.aspectRatio = String(media.aspectRatio)
+    container.classList.add('guida-media-sized')
+  }
+
+  const element = createMediaElement(media)
+  const loadEvent = media.type === 'video' ? 'loadedmetadata' : 'load'
+  element.addEventListener(loadEvent, onLoad, { once: true })
+  element.addEventListener('error', () => {
+    // Leave out media that cannot be shown instead of an empty box
+    container.remove()
+    onLoad()
+  }, { once: true })
+
+  container.appendChild(element)
+  return container
+}
@@ -1,15 +1,171 @@
-import { OnboardingConfig, OnboardingStep, OnboardingState, OnboardingEvents } from './types'
+import {
+  OnboardingConfig,
+  OnboardingStep,
+  OnboardingState,
+  OnboardingEvents,
+  KeyboardBindings,
+  NavigationGuard,
+  NavigationGuardResult,
+  ScrollOptions,
+  StepChangeDirection,
+  StepChoice,
+  StepContent,
+  CompletionOptions,
+  TooltipRenderContext,
+  TooltipRenderer,
+  TooltipSlots,
+  TourContext,
+  TourDirection,
+  StepHookName,
+  StepTarget,
+  TargetWaitOptions,
+  TooltipSide
+} from './types'
 import { DEFAULT_STYLES } from './styles'
+import { computePlacement, PlacementAlignment } from './placement'
+import { scrollTargetIntoView, waitForScrollEnd, ResolvedScrollOptions } from './scroll'
+import { sanitizeHtml, escapeHtml } from './sanitize'
+import { createMedia } from './media'
+import { resolveThemeVariables } from './theme'
+import { waitForElement, resolveTarget, resolveTargets, describeTarget, isEventFromTarget, getFrameChain, getViewportRect } from './targets'
 
 /**
  * Internal configuration with all required properties
  */
-type MergedOnboardingConfig = Required<Omit<OnboardingConfig, 'spotlight'>> & {
+type MergedOnboardingConfig = Required<Omit<OnboardingConfig, 'spotlight' | 'scroll' | 'waitForTarget' | 'keyboard' | 'renderTooltip'>> & {
   spotlight: {
     borderRadius: number
     padding: number
-    backdropOpacity: number
+    backdropOpacity?: number
   }
+  scroll: ScrollOptions | false
+  waitForTarget: Required<TargetWaitOptions>
+  keyboard: Required<KeyboardBindings> | false
+  renderTooltip?: TooltipRenderer
+}
+
+/**
+ * Navigation a step offers, shared by the default buttons and the keyboard
+ */
+interface StepNavigation {
+  previous: boolean
+  next: boolean
+  close: boolean
+}
+
+/**
+ * Number of created instances, used for ids that must be unique per instance
+ */
+let instanceCount = 0
+
+/**
+ * Pointer events blocked outside the area the interaction mode allows
+ */
+const POINTER_EVENTS = [
+  'pointerdown',
+  'pointerup',
+  'mousedown',
+  'mouseup',
+  'click',
+  'dblclick',
+  'auxclick',
+  'contextmenu',
+  'touchstart',
+  'touchend'
+]
+
+/**
+ * Elements that can receive focus with the Tab key
+ */
+const FOCUSABLE_SELECTOR = [
+  'button:not([disabled])',
+  'a[href]',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])'
+].join(', ')
+
+/**
+ * Input types that do not take text, so navigation keys still work in them
+ */
+const NON_TEXT_INPUT_TYPES = ['button', 'checkbox', 'color', 'file', 'image', 'radio', 'range', 'reset', 'submit']
+
+/**
+ * Check whether an element takes text input, where navigation keys must keep working as usual
+ */
+function isTextField(element: HTMLElement): boolean {
+  if (element.isContentEditable) return true
+  if (element.tagName === 'TEXTAREA' || element.tagName === 'SELECT') return true
+  if (element.tagName === 'INPUT') {
+    return !NON_TEXT_INPUT_TYPES.includes((element as HTMLInputElement).type)
+  }
+  return false
+}
+
+/**
+ * Controls that move with the arrow keys themselves, and the widgets containing them
+ */
+const ARROW_KEY_WIDGETS = [
+  'input[type="range"]',
+  'input[type="radio"]',
+  '[role="slider"]',
+  '[role="radiogroup"]',
+  '[role="listbox"]',
+  '[role="tablist"]'
+].join(', ')
+
+/**
+ * Parts of the default tooltip layout replaced by each slot
+ */
+const TOOLTIP_SLOTS: Record<keyof TooltipSlots, string> = {
+  header: '.guida-title',
+  progress: '.guida-progress',
+  body: '.guida-description',
+  footer: '.guida-actions'
+}
+
+/**
+ * Append rendered content, an element or markup, to a container. Markup comes
+ * from the app's own renderers and is inserted as is.
+ */
+function appendContent(container: HTMLElement, content: HTMLElement | string): void {
+  if (typeof content === 'string') {
+    container.insertAdjacentHTML('beforeend', content)
+  } else {
+    container.appendChild(content)
+  }
+}
+
+/**
+ * Default tooltip width (in pixels), media queries may narrow it
+ */
+const TOOLTIP_WIDTH = 320
+
+/**
+ * Distance between the padded spotlight and the tooltip (in pixels)
+ */
+const TOOLTIP_GAP = 12
+
+/**
+ * Minimum distance between the tooltip and the viewport edges (in pixels)
+ */
+const TOOLTIP_VIEWPORT_MARGIN = 20
+
+/**
+ * Minimum distance between the arrow center and the tooltip corners (in pixels),
+ * the tooltip border radius plus half the arrow width
+ */
+const ARROW_CORNER_PADDING = 20
+
+/**
+ * Spotlight cutout in viewport coordinates
+ */
+interface SpotlightRect {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
 }
 
 /**
@@ -19,9 +175,16 @@ export class Guida {
   private config: MergedOnboardingConfig
   private state: OnboardingState
   private eventListeners: Map<keyof OnboardingEvents, Function[]> = new Map()
+  private instanceId = ++instanceCount
+  private spotlightMaskId = `guida-spotlight-${this.instanceId}`
+  private highlightClass = `guida-highlight-${this.instanceId}`
+  private spotlightRects: SpotlightRect[] = []
+  private stepNavigation: StepNavigation = { previous: false, next: false, close: false }
+  private themeVariables: Record<string, string>
 
   constructor(config: OnboardingConfig) {
     this.config = this.mergeConfig(config)
+    this.themeVariables = resolveThemeVariables(this.config.theme)
     this.state = {
       currentStep: 0,
       isActive: false,
@@ -30,8 +193,28 @@ export class Guida {
       tooltip: null,
       currentHighlightedElement: null,
       currentStepConfig: null,
+      currentTarget: null,
+      additionalTargets: [],
+      interactionCleanup: null,
+      frameScrollCleanup: null,
+      isScrolling: false,
+      layoutFrame: null,
+      resizeObserver: null,
       resizeHandler: null,
-      scrollHandler: null
+      scrollHandler: null,
+      pointerHandler: null,
+      keydownHandler: null,
+      focusTrapCleanup: null,
+      liveRegion: null,
+      returnFocus: null,
+      pendingHook: null,
+      direction: 'start',
+      skippedSteps: new Set(),
+      history: [],
+      showingCompletion: false,
+      completionTimer: null,
+      transitionTimer: null,
+      targetWait: null
     }
 
     this.init()
@@ -49,8 +232,32 @@ export class Guida {
       spotlight: {
         borderRadius: config.spotlight?.borderRadius ?? 8,
         padding: config.spotlight?.padding ?? 8,
-        backdropOpacity: config.spotlight?.backdropOpacity ?? 50
+        // Left to the theme unless set, high contrast darkens the backdrop
+        backdropOpacity: config.spotlight?.backdropOpacity
       },
+      scroll: config.scroll ?? {},
+      waitForTarget: {
+        timeout: config.waitForTarget?.timeout ?? 0,
+        strategy: config.waitForTarget?.strategy ?? 'observer',
+        interval: config.waitForTarget?.interval ?? 100,
+        fallback: config.waitForTarget?.fallback ?? 'skip'
+      },
+      data: config.data ?? {},
+      interaction: config.interaction ?? 'all',
+      backdropClick: config.backdropClick ?? 'none',
+      keyboard: config.keyboard === false
+        ? false
+        : {
+          next: config.keyboard?.next ?? ['ArrowRight', 'Enter'],
+          previous: config.keyboard?.previous ?? ['ArrowLeft'],
+          close: config.keyboard?.close ?? ['Escape']
+        },
+      contentMode: config.contentMode ?? 'text',
+      mediaOrigins: config.mediaOrigins ?? [],
+      renderTooltip: config.renderTooltip,
+      theme: config.theme ?? {},
+      completion: config.completion ?? {},
+      slots: config.slots ?? {},
       customClasses: {
         overlay: '',
         backdrop: '',
@@ -105,8 +312,19 @@ export class Guida {
 
     this.state.isActive = true
     this.state.currentStep = 0
+    this.state.direction = 'start'
+    this.state.skippedSteps = new Set()
+    this.state.history = []
+
+    // Remember where focus was to return it when the tour ends
+    const activeElement = document.activeElement
+    this.state.returnFocus = activeElement instanceof HTMLElement && activeElement !== document.body ? activeElement : null
+
     this.createOverlay()
     this.setupResizeHandler()
+    this.setupPointerHandler()
+    this.setupKeyboardHandler()
+    this.setupFocusTrap()
     this.showStep(this.state.currentStep)
 
     this.emit('start')
@@ -122,27 +340,78 @@ export class Guida {
     this.state.overlay.className = `guida-overlay ${this.config.customClasses.overlay}`
     this.state.overlay.innerHTML = `
       <div class="guida-backdrop ${this.config.customClasses.backdrop}"></div>
+      <div class="guida-loader" aria-hidden="true"></div>
     `
 
-    // Apply custom backdrop opacity
+    // Apply custom backdrop opacity over the theme's, the color comes from the theme
     const backdrop = this.state.overlay.querySelector('.guida-backdrop') as HTMLElement
-    if (backdrop) {
-      const opacity = this.config.spotlight.backdropOpacity / 100
-      backdrop.style.backgroundColor = `rgba(0, 0, 0, ${opacity})`
+    const backdropOpacity = this.config.spotlight.backdropOpacity
+    if (backdrop && backdropOpacity !== undefined) {
+      backdrop.style.setProperty('--guida-backdrop-opacity', `${backdropOpacity}%`)
     }
 
-    // Create tooltip
+    // Create tooltip as a dialog labelled by the step title and described by the description
     this.state.tooltip = document.createElement('div')
     this.state.tooltip.className = `guida-tooltip ${this.config.customClasses.tooltip}`
+    this.state.tooltip.setAttribute('role', 'dialog')
+    this.state.tooltip.setAttribute('aria-labelledby', this.getElementId('title'))
+    this.state.tooltip.setAttribute('aria-describedby', this.getElementId('description'))
+    this.state.tooltip.tabIndex = -1
+
+    // Create live region announcing step changes to screen readers
+    this.state.liveRegion = document.createElement('div')
+    this.state.liveRegion.className = 'guida-live-region'
+    this.state.liveRegion.setAttribute('role', 'status')
+    this.state.liveRegion.setAttribute('aria-live', 'polite')
+
+    this.applyTheme(this.state.overlay)
+    this.applyTheme(this.state.tooltip)
+    this.injectHighlightTheme()
 
     document.body.appendChild(this.state.overlay)
     document.body.appendChild(this.state.tooltip)
+    document.body.appendChild(this.state.liveRegion)
+  }
+
+  /**
+   * Set the theme variables of this instance on an element
+   */
+  private applyTheme(element: HTMLElement): void {
+    for (const [name, value] of Object.entries(this.themeVariables)) {
+      element.style.setProperty(name, value)
+    }
+  }
+
+  /**
+   * Scope the highlight variables of this instance's theme to its highlight class,
+   * so they are not written onto the page's own elements
+   */
+  private injectHighlightTheme(): void {
+    const declarations = Object.entries(this.themeVariables)
+      .filter(([name]) => name.startsWith('--guida-highlight-'))
+      .map(([name, value]) => `${name}: ${value};`)
+    if (declarations.length === 0) return
+
+    const styleElement = document.createElement('style')
+    styleElement.id = this.getElementId('theme')
+    styleElement.textContent = `.${this.highlightClass} { ${declarations.join(' ')} }`
+    document.head.appendChild(styleElement)
+  }
+
+  /**
+   * Get the id of an element inside the tooltip, unique per instance
+   */
+  private getElementId(name: string): string {
+    return `guida-${this.instanceId}-${name}`
   }
 
   /**
    * Show a specific step
    */
   private showStep(stepIndex: number): void {
+    // The tour may have been closed while moving between steps
+    if (!this.state.isActive) return
+
     if (stepIndex >= this.config.steps.length) {
       this.complete()
       return
@@ -150,19 +419,299 @@ export class Guida {
 
     const step = this.config.steps[stepIndex]
     this.state.currentStepConfig = step
-    const target = document.querySelector(step.target) as HTMLElement
+    this.state.currentTarget = null
+    this.state.isScrolling = false
+    this.cancelTargetWait()
+    this.teardownStepInteraction()
+
+    this.checkStepCondition(step, stepIndex, (shouldShow) => {
+      if (!shouldShow) {
+        this.skipStep(stepIndex)
+        return
+      }
+      this.state.skippedSteps.delete(stepIndex)
+
+      // Let the app get ready for the step before touching the DOM
+      this.runStepHook('beforeShow', step, stepIndex, (succeeded) => {
+        if (succeeded) {
+          this.displayStep(stepIndex, step)
+        } else {
+          // End the tour rather than showing a step the app is not ready for
+          this.abort()
+        }
+      })
+    })
+  }
 
-    if (!target) {
-      console.warn(`Spotlight Onboarding: Target not found: ${step.target}`)
-      this.nextStep()
+  /**
+   * Skip a step whose `when` predicate failed or whose target was not found,
+   * continuing in the direction the tour is moving. Going back past the first
+   * step continues forward instead.
+   */
+  private skipStep(stepIndex: number): void {
+    this.state.skippedSteps.add(stepIndex)
+
+    const step = this.config.steps[stepIndex]
+    let nextIndex = this.getNextStepIndex(stepIndex) ?? stepIndex + 1
+    if (this.state.direction === 'previous') {
+      const previousIndex = step.previous !== undefined ? this.findStepIndex(step.previous) : stepIndex - 1
+      if (previousIndex !== null && previousIndex >= 0) {
+        nextIndex = previousIndex
+      } else {
+        this.state.direction = 'next'
+      }
+    }
+
+    this.state.currentStep = nextIndex
+    this.showStep(nextIndex)
+  }
+
+  /**
+   * Record a rendered step in the path the user took, coming back to a step
+   * on the path drops the steps after it. Jumps start a new path, so going
+   * back from them uses the step's declared `previous` step.
+   */
+  private recordHistory(stepIndex: number): void {
+    if (this.state.direction === 'goto') {
+      this.state.history = [stepIndex]
+      return
+    }
+
+    const position = this.state.history.indexOf(stepIndex)
+    if (position === -1) {
+      this.state.history.push(stepIndex)
+    } else {
+      this.state.history.length = position + 1
+    }
+  }
+
+  /**
+   * Find the index of the step with the given id, warning when there is none
+   */
+  private findStepIndex(id: string): number | null {
+    const index = this.config.steps.findIndex((step) => step.id === id)
+    if (index === -1) {
+      console.warn(`Spotlight Onboarding: Step not found: ${id}`)
+      return null
+    }
+    return index
+  }
+
+  /**
+   * Index of the step after a step: its `next` step, or the following one
+   */
+  private getNextStepIndex(stepIndex: number): number | null {
+    const next = this.config.steps[stepIndex]?.next
+    return next !== undefined ? this.findStepIndex(next) : stepIndex + 1
+  }
+
+  /**
+   * Index of the step before the current one on the path the user took, falling back
+   * to the declared `previous` step and then the preceding one, or null on the first step
+   */
+  private getPreviousStepIndex(): number | null {
+    const current = this.state.currentStep
+    const position = this.state.history.lastIndexOf(current)
+    if (position > 0) {
+      return this.state.history[position - 1]
+    }
+
+    const previous = this.config.steps[current]?.previous
+    if (previous !== undefined) {
+      return this.findStepIndex(previous)
+    }
+
+    return this.getStepPosition() > 1 ? current - 1 : null
+  }
+
+  /**
+   * Position of the current step on the path the user took and the number of steps,
+   * counting the steps ahead on the way to the end of the tour and leaving out steps
+   * skipped so far. Predicates only run right before their step would show, so the
+   * total shrinks once the tour reaches a step whose predicate fails.
+   */
+  private getProgress(): { current: number; total: number } {
+    const currentStep = this.state.currentStep
+    const history = this.state.history
+    const position = history.lastIndexOf(currentStep)
+
+    // The path starts at the first step or, after a jump, at the step jumped to
+    const current = position === -1
+      ? this.getStepPosition(currentStep)
+      : this.getStepPosition(history[0]) + position
+
+    return { current, total: current + this.countStepsAhead(currentStep, new Map(), new Set()) }
+  }
+
+  /**
+   * Position of a step in the array, leaving out the steps skipped before it
+   */
+  private getStepPosition(stepIndex: number = this.state.currentStep): number {
+    return stepIndex + 1 - Array.from(this.state.skippedSteps).filter((index) => index < stepIndex).length
+  }
+
+  /**
+   * Number of steps after a step on the way to the end of the tour, following `next`
+   * and, at choices, the longest branch. Skipped steps are left out.
+   */
+  private countStepsAhead(stepIndex: number, counted: Map<number, number>, visiting: Set<number>): number {
+    const known = counted.get(stepIndex)
+    if (known !== undefined) return known
+    // Steps pointing back along the path do not add to it
+    if (visiting.has(stepIndex)) return 0
+
+    const steps = this.config.steps
+    const step = steps[stepIndex]
+    // Unknown ids are warned about when navigating, not on every count
+    const indexOf = (id: string) => steps.findIndex((candidate) => candidate.id === id)
+    const nextIndices = step.choices?.length
+      ? step.choices.map((choice) => indexOf(choice.next))
+      : [step.next !== undefined ? indexOf(step.next) : stepIndex + 1]
+
+    visiting.add(stepIndex)
+    let longest = 0
+    for (const nextIndex of nextIndices) {
+      if (nextIndex < 0 || nextIndex >= steps.length) continue
+      const count = (this.state.skippedSteps.has(nextIndex) ? 0 : 1) + this.countStepsAhead(nextIndex, counted, visiting)
+      longest = Math.max(longest, count)
+    }
+    visiting.delete(stepIndex)
+
+    counted.set(stepIndex, longest)
+    return longest
+  }
+
+  /**
+   * Resolve the step target and render the step once the target is found
+   */
+  private displayStep(stepIndex: number, step: OnboardingStep): void {
+    if (!this.state.isActive) return
+
+    // Steps without a target are shown as a centered modal
+    const target = step.target
+    if (target === undefined) {
+      this.renderStep(stepIndex, step, null)
+      return
+    }
+
+    const resolved = resolveTarget(target)
+
+    if (resolved instanceof Promise) {
+      // Async resolver, wait for it before falling back to the wait options
+      const pending = { promise: resolved, cancel: () => { } }
+      this.state.targetWait = pending
+
+      resolved.then((element) => {
+        if (this.state.targetWait !== pending) return
+        this.state.targetWait = null
+
+        // Nothing up the chain would catch errors, e.g. from stepChange listeners
+        try {
+          if (element) {
+            this.renderStep(stepIndex, step, element)
+          } else {
+            this.waitForTarget(stepIndex, step, target)
+          }
+        } catch (error) {
+          this.reportError(error, 'render', step, stepIndex)
+        }
+      })
+      return
+    }
+
+    if (resolved) {
+      this.renderStep(stepIndex, step, resolved)
+      return
+    }
+
+    this.waitForTarget(stepIndex, step, target)
+  }
+
+  /**
+   * Wait for a missing step target using the step's wait options
+   */
+  private waitForTarget(stepIndex: number, step: OnboardingStep, target: StepTarget): void {
+    const waitOptions = this.getTargetWaitOptions(step)
+    if (waitOptions.timeout <= 0) {
+      this.handleTargetNotFound(stepIndex, step, target, waitOptions)
       return
     }
 
+    // Target may be rendered later, wait for it before showing the step
+    const pending = waitForElement(() => resolveTarget(target), waitOptions)
+    this.state.targetWait = pending
+
+    pending.promise.then((element) => {
+      // Ignore results from waits that were cancelled or superseded
+      if (this.state.targetWait !== pending) return
+      this.state.targetWait = null
+
+      // Nothing up the chain would catch errors, e.g. from stepChange listeners
+      try {
+        if (element) {
+          this.renderStep(stepIndex, step, element)
+        } else {
+          this.handleTargetNotFound(stepIndex, step, target, waitOptions)
+        }
+      } catch (error) {
+        this.reportError(error, 'render', step, stepIndex)
+      }
+    })
+  }
+
+  /**
+   * Render a step, either anchored to its target or centered when target is null
+   */
+  private renderStep(stepIndex: number, step: OnboardingStep, target: HTMLElement | null): void {
+    if (!this.state.isActive) return
+
+    this.recordHistory(stepIndex)
+
     // Emit step change events
     this.emit('stepChange', { stepIndex, step })
     this.config.callbacks.onStepChange?.(stepIndex, step)
 
-    // Highlight target element
+    this.state.currentTarget = target
+    this.watchFrameScroll(target)
+    this.observeTargets()
+
+    if (!target) {
+      this.clearHighlights()
+      this.state.currentHighlightedElement = null
+      this.state.additionalTargets = []
+      this.showTooltip(null, step)
+      this.setupStepInteraction(null, step)
+      this.runAfterShow(step)
+      return
+    }
+
+    this.state.currentHighlightedElement = null
+    this.state.additionalTargets = []
+    this.resolveAdditionalTargets(step)
+
+    // Place the spotlight and tooltip only once the target has scrolled into view
+    const scrollOptions = this.getScrollOptions(step)
+    if (scrollOptions && scrollTargetIntoView(target, scrollOptions)) {
+      this.clearHighlights()
+      this.state.isScrolling = true
+
+      waitForScrollEnd(target).then(() => {
+        // Step may have changed while scrolling
+        if (this.state.currentTarget !== target || this.state.currentStepConfig !== step) return
+        this.state.isScrolling = false
+        this.placeStep(target, step)
+      })
+      return
+    }
+
+    this.placeStep(target, step)
+  }
+
+  /**
+   * Highlight the target, show the tooltip and set up interaction handling
+   */
+  private placeStep(target: HTMLElement, step: OnboardingStep): void {
+    // Highlight target element together with any additional targets
     this.highlightElement(target, step.highlight, step)
 
     // Position and show tooltip
@@ -170,45 +719,274 @@ export class Guida {
 
     // Set up interaction handling
     this.setupStepInteraction(target, step)
-  }  /**
+
+    this.runAfterShow(step)
+  }
+
+  /**
+   * Run a step hook and call `done` with whether it succeeded. Hooks without a
+   * promise finish synchronously; while a promise is pending the loading state
+   * is shown and navigation other than closing is ignored.
+   */
+  private runStepHook(name: StepHookName, step: OnboardingStep, stepIndex: number, done: (succeeded: boolean) => void): void {
+    const hook = step[name]
+    if (!hook) {
+      done(true)
+      return
+    }
+
+    const fail = (error: unknown) => {
+      this.reportError(error, name, step, stepIndex)
+      done(false)
+    }
+
+    try {
+      this.awaitResult(hook(step, stepIndex), () => done(true), fail)
+    } catch (error) {
+      fail(error)
+    }
+  }
+
+  /**
+   * Check the step's `when` predicate and call `done` with whether the step should be shown.
+   * Predicates that fail are reported and the step is skipped.
+   */
+  private checkStepCondition(step: OnboardingStep, stepIndex: number, done: (shouldShow: boolean) => void): void {
+    if (!step.when) {
+      done(true)
+      return
+    }
+
+    const context: TourContext = {
+      stepIndex,
+      step,
+      direction: this.state.direction,
+      data: this.config.data
+    }
+
+    const fail = (error: unknown) => {
+      this.reportError(error, 'when', step, stepIndex)
+      done(false)
+    }
+
+    try {
+      this.awaitResult(step.when(context), (shouldShow) => done(shouldShow !== false), fail)
+    } catch (error) {
+      fail(error)
+    }
+  }
+
+  /**
+   * Call `done` with a value, right away for plain values or once a promise resolves.
+   * While a promise is pending the loading state is shown and navigation other than
+   * closing is ignored; results of promises that were superseded, e.g. by closing
+   * the tour, are dropped.
+   */
+  private awaitResult<T>(result: T | Promise<T>, done: (value: T) => void, fail: (error: unknown) => void): void {
+    if (!(result instanceof Promise)) {
+      done(result)
+      return
+    }
+
+    const pending = result
+    this.state.pendingHook = pending
+    this.setLoading(true)
+
+    const isCurrent = () => {
+      if (this.state.pendingHook !== pending) return false
+      this.state.pendingHook = null
+      this.setLoading(false)
+      return true
+    }
+
+    pending.then(
+      (value) => isCurrent() && done(value),
+      (error) => isCurrent() && fail(error)
+    )
+  }
+
+  /**
+   * Run the afterShow hook of the current step, reporting errors without blocking the tour
+   */
+  private runAfterShow(step: OnboardingStep): void {
+    const stepIndex = this.state.currentStep
+    const hook = step.afterShow
+    if (!hook) return
+
+    try {
+      const result = hook(step, stepIndex)
+      if (result instanceof Promise) {
+        result.catch((error) => this.reportError(error, 'afterShow', step, stepIndex))
+      }
+    } catch (error) {
+      this.reportError(error, 'afterShow', step, stepIndex)
+    }
+  }
+
+  /**
+   * Report an error thrown by a step hook or guard through the error event,
+   * or the console when nobody listens for it
+   */
+  private reportError(
+    error: unknown,
+    hook: OnboardingEvents['error']['hook'],
+    step: OnboardingStep | null,
+    stepIndex: number
+  ): void {
+    if (this.eventListeners.get('error')?.length) {
+      this.emit('error', { error, stepIndex, step, hook })
+    } else {
+      console.error(`Spotlight Onboarding: ${hook} hook of step ${stepIndex} failed`, error)
+    }
+  }
+
+  /**
+   * Show or hide the loading state while an async hook runs
+   */
+  private setLoading(isLoading: boolean): void {
+    this.state.overlay?.classList.toggle('guida-loading', isLoading)
+    if (isLoading) {
+      this.state.tooltip?.setAttribute('aria-busy', 'true')
+    } else {
+      this.state.tooltip?.removeAttribute('aria-busy')
+    }
+  }
+
+  /**
+   * Run the beforeLeave hook of the current step, then move on. Hook failures
+   * are reported but do not keep the user on the step.
+   */
+  private leaveStep(proceed: () => void): void {
+    const stepIndex = this.state.currentStep
+    const step = this.config.steps[stepIndex]
+    if (!step || !this.state.isActive) {
+      proceed()
+      return
+    }
+
+    this.runStepHook('beforeLeave', step, stepIndex, () => proceed())
+  }
+
+  /**
+   * Resolve the scroll options for a step from step and global config,
+   * or null when the target should not be scrolled into view
+   */
+  private getScrollOptions(step: OnboardingStep): ResolvedScrollOptions | null {
+    if (step.scroll === false || (step.scroll === undefined && this.config.scroll === false)) {
+      return null
+    }
+
+    const global = this.config.scroll || {}
+    const local = step.scroll || {}
+    const container = local.container ?? global.container
+
+    return {
+      offsetTop: local.offsetTop ?? global.offsetTop ?? 0,
+      offsetBottom: local.offsetBottom ?? global.offsetBottom ?? 0,
+      container: typeof container === 'string' ? document.querySelector<HTMLElement>(container) : container ?? null,
+      behavior: local.behavior ?? global.behavior ?? 'smooth'
+    }
+  }
+
+  /**
+   * Resolve the target wait options for a step from step and global config
+   */
+  private getTargetWaitOptions(step: OnboardingStep): Required<TargetWaitOptions> {
+    const global = this.config.waitForTarget
+    return {
+      timeout: step.waitForTarget?.timeout ?? global.timeout,
+      strategy: step.waitForTarget?.strategy ?? global.strategy,
+      interval: step.waitForTarget?.interval ?? global.interval,
+      fallback: step.waitForTarget?.fallback ?? global.fallback
+    }
+  }
+
+  /**
+   * Apply the fallback for a step whose target could not be found. Failing
+   * listeners and fallback callbacks are reported and do not stop the tour.
+   */
+  private handleTargetNotFound(
+    stepIndex: number,
+    step: OnboardingStep,
+    target: StepTarget,
+    waitOptions: Required<TargetWaitOptions>
+  ): void {
+    const fallback = waitOptions.fallback
+    console.warn(`Spotlight Onboarding: Target not found: ${describeTarget(target)}`)
+
+    try {
+      this.emit('targetNotFound', {
+        stepIndex,
+        step,
+        fallback: typeof fallback === 'function' ? 'callback' : fallback
+      })
+    } catch (error) {
+      this.reportError(error, 'targetNotFound', step, stepIndex)
+    }
+
+    if (typeof fallback === 'function') {
+      try {
+        fallback(step, stepIndex)
+      } catch (error) {
+        this.reportError(error, 'fallback', step, stepIndex)
+      }
+      return
+    }
+
+    switch (fallback) {
+      case 'center':
+        this.renderStep(stepIndex, step, null)
+        break
+      case 'abort':
+        this.abort()
+        break
+      default:
+        this.leaveStep(() => this.skipStep(stepIndex))
+    }
+  }
+
+  /**
+   * Cancel any pending wait for a step target
+   */
+  private cancelTargetWait(): void {
+    if (this.state.targetWait) {
+      const pending = this.state.targetWait
+      this.state.targetWait = null
+      pending.cancel()
+    }
+  }
+
+  /**
    * Highlight an element with spotlight effect
    */
   private highlightElement(element: HTMLElement, shouldHighlight: boolean, step?: OnboardingStep): void {
     // Remove previous highlights
-    document.querySelectorAll('.guida-highlight').forEach((el) => {
-      el.classList.remove('guida-highlight')
-      if (this.config.customClasses.highlight) {
-        el.classList.remove(this.config.customClasses.highlight)
-      }
-    })
+    this.removeHighlightClasses()
 
     const backdrop = this.state.overlay?.querySelector('.guida-backdrop') as HTMLElement
     this.state.currentHighlightedElement = shouldHighlight ? element : null
 
     if (shouldHighlight && backdrop) {
-      element.classList.add('guida-highlight')
-      if (this.config.customClasses.highlight) {
-        element.classList.add(this.config.customClasses.highlight)
-      }
+      [element, ...this.state.additionalTargets].forEach((el) => {
+        el.classList.add('guida-highlight', this.highlightClass)
+        if (this.config.customClasses.highlight) {
+          el.classList.add(this.config.customClasses.highlight)
+        }
+      })
 
       this.updateClipPath(element, backdrop, step)
-
-      // Scroll element into view
-      element.scrollIntoView({
-        behavior: 'smooth',
-        block: 'center',
-        inline: 'center'
-      })
-    } else if (backdrop) {
-      // Reset clip-path when no highlight
-      backdrop.style.clipPath = 'none'
+    } else {
+      // Forget the previous cutouts, so clicks where they were count as outside the spotlight
+      this.spotlightRects = []
+      if (backdrop) {
+        // Reset clip-path when no highlight
+        backdrop.style.clipPath = 'none'
+      }
     }
   }  /**
    * Update the clip-path for the backdrop to create spotlight effect with border radius
    */
   private updateClipPath(element: HTMLElement, backdrop: HTMLElement, step?: OnboardingStep): void {
-    const rect = element.getBoundingClientRect()
-
     // Get spotlight options from step or global config with explicit defaults
     const stepSpotlight = step?.spotlight
     const globalSpotlight = this.config.spotlight
@@ -216,20 +994,34 @@ export class Guida {
     const borderRadius = stepSpotlight?.borderRadius ?? globalSpotlight.borderRadius
     const padding = stepSpotlight?.padding ?? globalSpotlight.padding
 
-    // Backdrop opacity is always global (no per-step override)
-    const opacity = globalSpotlight.backdropOpacity / 100
-    backdrop.style.backgroundColor = `rgba(0, 0, 0, ${opacity})`
-
-    // Calculate coordinates with padding
-    const x1 = Math.max(0, rect.left - padding)
-    const y1 = Math.max(0, rect.top - padding)
-    const x2 = Math.min(window.innerWidth, rect.right + padding)
-    const y2 = Math.min(window.innerHeight, rect.bottom + padding)
+    // Calculate padded cutouts for the target and any additional targets
+    const cutouts = [element, ...this.state.additionalTargets].map((el) => {
+      const rect = getViewportRect(el)
+      return {
+        x1: Math.max(0, rect.left - padding),
+        y1: Math.max(0, rect.top - padding),
+        x2: Math.min(window.innerWidth, rect.right + padding),
+        y2: Math.min(window.innerHeight, rect.bottom + padding)
+      }
+    })
 
-    if (borderRadius > 0) {
-      // Create rounded rectangle using SVG mask
-      this.createRoundedSpotlight(backdrop, x1, y1, x2, y2, borderRadius)
+    // Optionally merge all cutouts into their bounding box
+    const rects: SpotlightRect[] = stepSpotlight?.merge
+      ? [{
+        x1: Math.min(...cutouts.map((c) => c.x1)),
+        y1: Math.min(...cutouts.map((c) => c.y1)),
+        x2: Math.max(...cutouts.map((c) => c.x2)),
+        y2: Math.max(...cutouts.map((c) => c.y2))
+      }]
+      : cutouts
+    this.spotlightRects = rects
+
+    if (borderRadius > 0 || rects.length > 1) {
+      // Create rectangles using SVG mask, the polygon below can only cut out one
+      this.createRoundedSpotlight(backdrop, rects, borderRadius)
     } else {
+      const { x1, y1, x2, y2 } = rects[0]
+
       // Clear any SVG content and restore original backdrop
       backdrop.innerHTML = ''
       backdrop.style.backdropFilter = 'blur(2px)'
@@ -250,18 +1042,21 @@ export class Guida {
       backdrop.style.clipPath = clipPath
     }
   }  /**
-   * Create a rounded spotlight effect using SVG mask for proper rounded corners
+   * Create a rounded spotlight effect using SVG mask for proper rounded corners,
+   * with one cutout per rectangle
    */
-  private createRoundedSpotlight(backdrop: HTMLElement, x1: number, y1: number, x2: number, y2: number, borderRadius: number): void {
-    const width = x2 - x1
-    const height = y2 - y1
-
-    // Limit border radius to not exceed half of the smaller dimension
-    const maxRadius = Math.min(width / 2, height / 2, borderRadius)
-
+  private createRoundedSpotlight(backdrop: HTMLElement, rects: SpotlightRect[], borderRadius: number): void {
     // Clear any existing clip-path
     backdrop.style.clipPath = 'none'
 
+    // Reuse the existing mask when the number of cutouts is unchanged, only moving the cutouts
+    const existingMask = backdrop.querySelector(`#${this.spotlightMaskId}`)
+    const existingCutouts = existingMask?.querySelectorAll('rect.guida-cutout')
+    if (existingMask && existingCutouts && existingCutouts.length === rects.length) {
+      rects.forEach((rect, i) => this.updateCutout(existingCutouts[i], rect, borderRadius))
+      return
+    }
+
     // Create SVG with rounded rectangle cutout
     const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg')
     svg.style.position = 'absolute'
@@ -271,11 +1066,9 @@ export class Guida {
     svg.style.height = '100%'
     svg.style.pointerEvents = 'none'
 
-    const cutoutId = 'spotlight-cutout-' + Date.now()
-
     const defs = document.createElementNS('http://www.w3.org/2000/svg', 'defs')
     const mask = document.createElementNS('http://www.w3.org/2000/svg', 'mask')
-    mask.id = cutoutId
+    mask.id = this.spotlightMaskId
 
     // White background (visible area)
     const background = document.createElementNS('http://www.w3.org/2000/svg', 'rect')
@@ -283,18 +1076,17 @@ export class Guida {
     background.setAttribute('height', '100%')
     background.setAttribute('fill', 'white')
 
-    // Black rounded rectangle (cutout area)
-    const cutout = document.createElementNS('http://www.w3.org/2000/svg', 'rect')
-    cutout.setAttribute('x', x1.toString())
-    cutout.setAttribute('y', y1.toString())
-    cutout.setAttribute('width', width.toString())
-    cutout.setAttribute('height', height.toString())
-    cutout.setAttribute('rx', maxRadius.toString())
-    cutout.setAttribute('ry', maxRadius.toString())
-    cutout.setAttribute('fill', 'black')
-
     mask.appendChild(background)
-    mask.appendChild(cutout)
+
+    rects.forEach((rect) => {
+      // Black rounded rectangle (cutout area)
+      const cutout = document.createElementNS('http://www.w3.org/2000/svg', 'rect')
+      cutout.setAttribute('class', 'guida-cutout')
+      cutout.setAttribute('fill', 'black')
+      this.updateCutout(cutout, rect, borderRadius)
+      mask.appendChild(cutout)
+    })
+
     defs.appendChild(mask)
     svg.appendChild(defs)
 
@@ -302,131 +1094,601 @@ export class Guida {
     const rect = document.createElementNS('http://www.w3.org/2000/svg', 'rect')
     rect.setAttribute('width', '100%')
     rect.setAttribute('height', '100%')
-    rect.setAttribute('fill', 'rgba(0, 0, 0, 0.7)')
-    rect.setAttribute('mask', `url(#${cutoutId})`)
+    rect.style.setProperty('fill', 'var(--guida-backdrop-color)')
+    rect.setAttribute('fill-opacity', '0.7')
+    rect.setAttribute('mask', `url(#${this.spotlightMaskId})`)
+
+    svg.appendChild(rect)
+
+    // Clear backdrop and add SVG
+    backdrop.innerHTML = ''
+    backdrop.appendChild(svg)
+  }
+
+  /**
+   * Move and size a cutout rectangle of the spotlight mask
+   */
+  private updateCutout(cutout: Element, { x1, y1, x2, y2 }: SpotlightRect, borderRadius: number): void {
+    const width = x2 - x1
+    const height = y2 - y1
+
+    // Limit border radius to not exceed half of the smaller dimension
+    const maxRadius = Math.max(0, Math.min(width / 2, height / 2, borderRadius))
+
+    cutout.setAttribute('x', x1.toString())
+    cutout.setAttribute('y', y1.toString())
+    cutout.setAttribute('width', width.toString())
+    cutout.setAttribute('height', height.toString())
+    cutout.setAttribute('rx', maxRadius.toString())
+    cutout.setAttribute('ry', maxRadius.toString())
+  }
+
+  /**
+   * Setup resize handler to update clip-path on window resize
+   */
+  private setupResizeHandler(): void {
+    this.state.resizeHandler = () => this.scheduleLayoutUpdate()
+
+    // Handle scroll events to keep spotlight in sync
+    this.state.scrollHandler = () => this.scheduleLayoutUpdate()
+
+    // Track targets that move or resize for other reasons, like content loading
+    if (typeof ResizeObserver !== 'undefined') {
+      this.state.resizeObserver = new ResizeObserver(() => this.scheduleLayoutUpdate())
+    }
+
+    window.addEventListener('resize', this.state.resizeHandler)
+    window.addEventListener('scroll', this.state.scrollHandler, true) // Use capture to catch all scroll events
+    document.addEventListener('scroll', this.state.scrollHandler, true) // Also listen on document for better coverage
+  }
+
+  /**
+   * Block pointer events outside the allowed area and react to backdrop clicks.
+   * Listens on the window in the capture phase so blocked events never reach the page.
+   */
+  private setupPointerHandler(): void {
+    const handler = (event: Event) => {
+      const step = this.state.currentStepConfig
+      if (!step) return
+
+      // The tooltip can always be used
+      const path = event.composedPath()
+      if (this.state.tooltip && path.includes(this.state.tooltip)) return
+
+      const isInSpotlight = this.isInSpotlight(event, path)
+      const mode = step.interaction ?? this.config.interaction
+      if (mode === 'none' || (mode === 'spotlight-only' && !isInSpotlight)) {
+        event.preventDefault()
+        event.stopImmediatePropagation()
+      }
+
+      if (event.type === 'click' && !isInSpotlight) {
+        this.handleBackdropClick(step)
+      }
+    }
+
+    this.state.pointerHandler = handler
+    POINTER_EVENTS.forEach((type) => {
+      window.addEventListener(type, handler, { capture: true, passive: false })
+    })
+  }
+
+  /**
+   * Navigate the tour with the configured keys. Keys only do what the current
+   * step offers, also when it renders its own tooltip, and are ignored while typing.
+   */
+  private setupKeyboardHandler(): void {
+    const bindings = this.config.keyboard
+    if (!bindings) return
+
+    const handler = (event: KeyboardEvent) => {
+      // The page may have removed the tooltip, e.g. when replacing the body
+      const tooltip = this.state.tooltip
+      if (!tooltip?.isConnected || !tooltip.classList.contains('guida-visible')) return
+      if (event.defaultPrevented || event.altKey || event.ctrlKey || event.metaKey) return
+
+      const focused = event.composedPath()[0] as HTMLElement | undefined
+      if (focused && isTextField(focused)) return
+
+      // Sliders, radio groups, listboxes and tabs use the arrow keys themselves
+      if (event.key.startsWith('Arrow') && focused?.closest?.(ARROW_KEY_WIDGETS)) return
+
+      // Let focused buttons and links handle their own activation
+      if ((event.key === 'Enter' || event.key === ' ') && focused?.closest?.('button, a[href], [role="button"]')) return
+
+      // The completion screen can only be dismissed
+      const navigation = this.state.showingCompletion
+        ? { previous: false, next: false, close: true }
+        : this.stepNavigation
+
+      if (bindings.next.includes(event.key) && navigation.next) {
+        event.preventDefault()
+        this.nextStep()
+      } else if (bindings.previous.includes(event.key) && navigation.previous) {
+        event.preventDefault()
+        this.previousStep()
+      } else if (bindings.close.includes(event.key) && navigation.close) {
+        event.preventDefault()
+        this.close()
+      }
+    }
+
+    this.state.keydownHandler = handler
+    document.addEventListener('keydown', handler)
+  }
+
+  /**
+   * Keep focus inside the tooltip while it is a modal dialog
+   */
+  private setupFocusTrap(): void {
+    const getModalTooltip = () => {
+      const tooltip = this.state.tooltip
+      return tooltip?.isConnected && tooltip.getAttribute('aria-modal') === 'true' ? tooltip : null
+    }
+
+    // Wrap Tab and Shift+Tab around the focusable elements of the tooltip
+    const handleKeydown = (event: KeyboardEvent) => {
+      const tooltip = getModalTooltip()
+      if (event.key !== 'Tab' || !tooltip) return
+
+      const focusable = Array.from(tooltip.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR))
+      const first = focusable[0]
+      const last = focusable[focusable.length - 1]
+      const active = document.activeElement
+
+      if (!first) {
+        event.preventDefault()
+        tooltip.focus({ preventScroll: true })
+      } else if (event.shiftKey && (active === first || active === tooltip)) {
+        event.preventDefault()
+        last.focus()
+      } else if (!event.shiftKey && (active === last || !tooltip.contains(active))) {
+        event.preventDefault()
+        first.focus()
+      }
+    }
+
+    // Pull focus back when it moves out in other ways, e.g. programmatically
+    const handleFocusIn = (event: FocusEvent) => {
+      const tooltip = getModalTooltip()
+      if (tooltip && !tooltip.contains(event.target as Node)) {
+        tooltip.focus({ preventScroll: true })
+      }
+    }
+
+    document.addEventListener('keydown', handleKeydown)
+    document.addEventListener('focusin', handleFocusIn)
+    this.state.focusTrapCleanup = () => {
+      document.removeEventListener('keydown', handleKeydown)
+      document.removeEventListener('focusin', handleFocusIn)
+    }
+  }
+
+  /**
+   * Check whether a pointer event happened on the step's elements or inside a spotlight cutout
+   */
+  private isInSpotlight(event: Event, path: EventTarget[]): boolean {
+    const elements = [this.state.currentTarget, ...this.state.additionalTargets]
+    if (elements.some((el) => el && path.includes(el))) return true
+
+    const point = 'changedTouches' in event
+      ? (event as TouchEvent).changedTouches[0]
+      : (event as MouseEvent)
+    if (!point) return false
+
+    return this.spotlightRects.some(({ x1, y1, x2, y2 }) =>
+      point.clientX >= x1 && point.clientX <= x2 && point.clientY >= y1 && point.clientY <= y2
+    )
+  }
+
+  /**
+   * React to a click outside the spotlight and the tooltip
+   */
+  private handleBackdropClick(step: OnboardingStep): void {
+    const action = step.backdropClick ?? this.config.backdropClick
+
+    if (action === 'next') {
+      this.nextStep()
+    } else if (action === 'close') {
+      this.close()
+    }
+  }
+
+  /**
+   * Batch layout updates into one per animation frame
+   */
+  private scheduleLayoutUpdate(): void {
+    if (this.state.layoutFrame !== null) return
+
+    this.state.layoutFrame = requestAnimationFrame(() => {
+      this.state.layoutFrame = null
+      this.refreshTarget()
+    })
+  }
+
+  /**
+   * Observe the page and the current targets for size changes
+   */
+  private observeTargets(): void {
+    const observer = this.state.resizeObserver
+    if (!observer) return
+
+    observer.disconnect()
+    observer.observe(document.body)
+    if (this.state.currentTarget) {
+      observer.observe(this.state.currentTarget)
+    }
+    this.state.additionalTargets.forEach((el) => observer.observe(el))
+  }
+
+  /**
+   * Listen for scrolling inside the iframes a target is nested in,
+   * since those scroll events do not reach the top-level document
+   */
+  private watchFrameScroll(target: HTMLElement | null): void {
+    if (this.state.frameScrollCleanup) {
+      this.state.frameScrollCleanup()
+      this.state.frameScrollCleanup = null
+    }
+
+    const handler = this.state.scrollHandler
+    if (!target || !handler) return
+
+    const documents = [target.ownerDocument, ...getFrameChain(target).map((frame) => frame.ownerDocument)]
+      .filter((doc) => doc !== document)
+    if (documents.length === 0) return
+
+    documents.forEach((doc) => doc.addEventListener('scroll', handler, true))
+    this.state.frameScrollCleanup = () => {
+      documents.forEach((doc) => doc.removeEventListener('scroll', handler, true))
+    }
+  }
+
+  /**
+   * Re-resolve the current step target and update spotlight and tooltip positions
+   */
+  private refreshTarget(): void {
+    const step = this.state.currentStepConfig
+    if (!step || this.state.isScrolling) return
+
+    if (!this.state.currentTarget || step.target === undefined) {
+      // Centered steps only need the tooltip re-centered once they are shown
+      const tooltip = this.state.tooltip
+      if (!this.state.targetWait && tooltip?.classList.contains('guida-centered') && tooltip.classList.contains('guida-visible')) {
+        this.positionTooltip(null, step)
+      }
+      return
+    }
+
+    this.resolveAdditionalTargets(step)
+    const resolved = resolveTarget(step.target)
 
-    svg.appendChild(rect)
+    if (resolved instanceof Promise) {
+      resolved.then((element) => {
+        // Step may have changed while the resolver was running
+        if (this.state.currentStepConfig !== step || !this.state.currentTarget) return
+        this.updateTargetLayout(element ?? this.state.currentTarget, step)
+      })
+      return
+    }
 
-    // Clear backdrop and add SVG
-    backdrop.innerHTML = ''
-    backdrop.appendChild(svg)
+    // Keep the last known element if the target is temporarily missing
+    this.updateTargetLayout(resolved ?? this.state.currentTarget, step)
   }
 
   /**
-   * Setup resize handler to update clip-path on window resize
+   * Resolve the additional targets of a step, re-highlighting when they change
    */
-  private setupResizeHandler(): void {
-    this.state.resizeHandler = () => {
-      if (this.state.currentHighlightedElement && this.state.overlay && this.state.currentStepConfig) {
-        const backdrop = this.state.overlay.querySelector('.guida-backdrop') as HTMLElement
-        if (backdrop) {
-          this.updateClipPath(this.state.currentHighlightedElement, backdrop, this.state.currentStepConfig)
-        }
-        // Also update tooltip position on resize
-        if (this.state.tooltip && this.state.currentStepConfig) {
-          this.showTooltip(this.state.currentHighlightedElement, this.state.currentStepConfig)
-        }
+  private resolveAdditionalTargets(step: OnboardingStep): void {
+    const apply = (elements: HTMLElement[]) => {
+      const previous = this.state.additionalTargets
+      if (elements.length === previous.length && elements.every((el, i) => el === previous[i])) return
+
+      this.state.additionalTargets = elements
+      this.observeTargets()
+      if (this.state.currentHighlightedElement) {
+        this.highlightElement(this.state.currentHighlightedElement, step.highlight, step)
       }
     }
 
-    // Handle scroll events to keep spotlight in sync
-    this.state.scrollHandler = () => {
-      if (this.state.currentHighlightedElement && this.state.overlay && this.state.currentStepConfig) {
-        const backdrop = this.state.overlay.querySelector('.guida-backdrop') as HTMLElement
-        if (backdrop) {
-          this.updateClipPath(this.state.currentHighlightedElement, backdrop, this.state.currentStepConfig)
-        }
-        // Also update tooltip position on scroll
-        if (this.state.tooltip && this.state.currentStepConfig) {
-          this.showTooltip(this.state.currentHighlightedElement, this.state.currentStepConfig)
-        }
+    const resolved = resolveTargets(step.additionalTargets ?? [])
+
+    if (resolved instanceof Promise) {
+      resolved.then((elements) => {
+        // Step may have changed while the resolvers were running
+        if (this.state.currentStepConfig !== step || !this.state.currentTarget) return
+        apply(elements)
+      })
+      return
+    }
+
+    apply(resolved)
+  }
+
+  /**
+   * Move the spotlight and tooltip to the given target element
+   */
+  private updateTargetLayout(target: HTMLElement, step: OnboardingStep): void {
+    if (target !== this.state.currentTarget) {
+      // Target was re-rendered, move highlight and interaction to the new element
+      this.state.currentTarget = target
+      this.watchFrameScroll(target)
+      this.observeTargets()
+      this.highlightElement(target, step.highlight, step)
+      this.setupStepInteraction(target, step)
+    } else if (this.state.currentHighlightedElement && this.state.overlay) {
+      const backdrop = this.state.overlay.querySelector('.guida-backdrop') as HTMLElement
+      if (backdrop) {
+        this.updateClipPath(this.state.currentHighlightedElement, backdrop, step)
       }
     }
 
-    window.addEventListener('resize', this.state.resizeHandler)
-    window.addEventListener('scroll', this.state.scrollHandler, true) // Use capture to catch all scroll events
-    document.addEventListener('scroll', this.state.scrollHandler, true) // Also listen on document for better coverage
+    // Only move the tooltip, rebuilding it would lose focus and listeners
+    this.positionTooltip(target, step)
+  }
+
+  /**
+   * Work out which built-in navigation a step offers. Steps waiting for an action
+   * on their target and steps with choices have no Next, `controls` can hide any.
+   */
+  private getStepNavigation(step: OnboardingStep, hasTarget: boolean, isFirstStep: boolean, isLastStep: boolean): StepNavigation {
+    const controls = step.controls ?? {}
+    return {
+      previous: !isFirstStep && controls.previous !== false,
+      next: (step.action === 'observe' || !hasTarget) && !isLastStep && !step.choices?.length && controls.next !== false,
+      close: controls.close !== false
+    }
   }
 
   /**
    * Show tooltip for the current step
    */
-  private showTooltip(target: HTMLElement, step: OnboardingStep): void {
+  private showTooltip(target: HTMLElement | null, step: OnboardingStep): void {
     if (!this.state.tooltip) return
 
-    const rect = target.getBoundingClientRect()
-    const tooltipWidth = 320
-
-    const isFirstStep = this.state.currentStep === 0
-    const isLastStep = this.state.currentStep === this.config.steps.length - 1
+    const progress = this.getProgress()
+    const isFirstStep = this.getPreviousStepIndex() === null
+    const isLastStep = step.next === undefined && !step.choices?.length && progress.current === progress.total
+    const hint = this.getActionHint(step, target !== null)
+    const controls = step.controls ?? {}
+    const navigation = this.getStepNavigation(step, target !== null, isFirstStep, isLastStep)
+    this.stepNavigation = navigation
+    // Label of a built-in button, only rendered when the step offers it
+    const label = (value: string | false | undefined, fallback: string) => escapeHtml(value || fallback)
+
+    const context: TooltipRenderContext = {
+      step,
+      stepIndex: this.state.currentStep,
+      current: progress.current,
+      total: progress.total,
+      isFirstStep,
+      isLastStep,
+      actions: {
+        next: () => this.nextStep(),
+        previous: () => this.previousStep(),
+        close: () => this.close(),
+        goToStep: (stepIndex) => this.goToStep(stepIndex)
+      }
+    }
 
-    // Update tooltip content first
-    this.state.tooltip.innerHTML = `
-      <div class="guida-tooltip-content">
-        <div class="guida-header">
-          <h3>${step.title}</h3>
-          <div class="guida-progress">
-            <span>${this.state.currentStep + 1} of ${this.config.steps.length}</span>
+    // Update tooltip content first, from a custom renderer or the default layout with its slots
+    const renderTooltip = step.renderTooltip ?? this.config.renderTooltip
+    if (renderTooltip) {
+      this.state.tooltip.replaceChildren()
+      appendContent(this.state.tooltip, renderTooltip(context))
+    } else {
+      this.state.tooltip.innerHTML = `
+        <div class="guida-tooltip-content">
+          <div class="guida-header">
+            <h3 class="guida-title" id="${this.getElementId('title')}"></h3>
+            <div class="guida-progress">
+              <span>${progress.current} of ${progress.total}</span>
+            </div>
           </div>
-        </div>
-        <p>${step.description}</p>
-        <div class="guida-actions">
-          <div class="guida-controls">
-            ${!isFirstStep ? '<button class="guida-btn guida-btn-secondary guida-prev">← Previous</button>' : ''}
-            ${step.action === 'observe' && !isLastStep ? '<button class="guida-btn guida-next">Next →</button>' : ''}
-            ${step.skipable ? '<button class="guida-btn guida-btn-text guida-skip">Skip</button>' : ''}
-            <button class="guida-btn guida-btn-text guida-close">Close</button>
+          <p class="guida-description" id="${this.getElementId('description')}"></p>
+          ${hint ? `<p class="guida-hint">${escapeHtml(hint)}</p>` : ''}
+          ${step.choices?.length ? `<div class="guida-choices">${step.choices.map((choice, index) => `<button class="guida-btn guida-choice" data-choice="${index}">${escapeHtml(choice.label)}</button>`).join('')}</div>` : ''}
+          <div class="guida-actions">
+            <div class="guida-controls">
+              ${navigation.previous ? `<button class="guida-btn guida-btn-secondary guida-prev">${label(controls.previous, '← Previous')}</button>` : ''}
+              ${navigation.next ? `<button class="guida-btn guida-next">${label(controls.next, 'Next →')}</button>` : ''}
+              ${(step.buttons ?? []).map((button, index) => `<button class="guida-btn guida-btn-${button.variant ?? 'secondary'} guida-custom" data-button="${index}">${escapeHtml(button.label)}</button>`).join('')}
+              ${step.skipable && controls.skip !== false ? `<button class="guida-btn guida-btn-text guida-skip">${escapeHtml(controls.skip ?? 'Skip')}</button>` : ''}
+              ${navigation.close ? `<button class="guida-btn guida-btn-text guida-close">${label(controls.close, 'Close')}</button>` : ''}
+            </div>
           </div>
         </div>
-      </div>
-      <div class="guida-arrow guida-arrow-${step.position}"></div>
-    `
+      `
+      if (step.media) {
+        // Place the tooltip again once the media has its final size
+        const media = createMedia(step.media, this.config.mediaOrigins, () => this.scheduleLayoutUpdate())
+        if (media) {
+          this.state.tooltip.querySelector('.guida-tooltip-content')?.prepend(media)
+        }
+      }
+      this.renderContent(this.state.tooltip.querySelector('.guida-title'), step.title, step)
+      this.renderContent(this.state.tooltip.querySelector('.guida-description'), step.description, step)
+      this.fillSlots(context)
+    }
+
+    if (target) {
+      const arrow = document.createElement('div')
+      arrow.className = 'guida-arrow'
+      arrow.setAttribute('aria-hidden', 'true')
+      this.state.tooltip.appendChild(arrow)
+    }
+    this.updateDialogLabels(this.getPlainText(step.title, step))
+
+    this.state.tooltip.classList.toggle('guida-centered', !target)
+    delete this.state.tooltip.dataset.placement
 
     // Set width and make visible temporarily to measure actual height
-    this.state.tooltip.style.width = `${tooltipWidth}px`
+    this.state.tooltip.style.width = `${TOOLTIP_WIDTH}px`
     this.state.tooltip.style.visibility = 'hidden'
     this.state.tooltip.style.opacity = '1'
     this.state.tooltip.classList.add('guida-visible')
 
-    // Get the actual height after content is rendered
+    this.positionTooltip(target, step)
+
+    // Make visible at the final position
+    this.state.tooltip.style.visibility = 'visible'
+
+    // Setup event listeners to tooltip buttons
+    this.setupTooltipEvents()
+
+    // Trap focus in the dialog while the rest of the page cannot be used
+    const mode = step.interaction ?? this.config.interaction
+    this.state.tooltip.setAttribute('aria-modal', String(!target || mode === 'none'))
+
+    // Move focus into the dialog and announce the step
+    this.state.tooltip.focus({ preventScroll: true })
+    this.announce(`Step ${progress.current} of ${progress.total}`)
+  }
+
+  /**
+   * Announce a message to screen readers through the live region
+   */
+  private announce(message: string): void {
+    if (this.state.liveRegion) {
+      this.state.liveRegion.textContent = message
+    }
+  }
+
+  /**
+   * Measure the tooltip and move it next to the target, or to the center when
+   * there is no target. Only touches position styles so content and focus are kept.
+   */
+  private positionTooltip(target: HTMLElement | null, step: OnboardingStep): void {
+    if (!this.state.tooltip) return
+
+    // Get the actual size after content is rendered, media queries may narrow the width
     const tooltipHeight = this.state.tooltip.offsetHeight
+    const renderedWidth = this.state.tooltip.offsetWidth || TOOLTIP_WIDTH
 
     // Now calculate position with the correct height
     let left: number, top: number
 
-    switch (step.position) {
-      case 'top':
-        left = rect.left + rect.width / 2 - tooltipWidth / 2
-        top = rect.top - tooltipHeight - 20
-        break
-      case 'bottom':
-        left = rect.left + rect.width / 2 - tooltipWidth / 2
-        top = rect.bottom + 20
-        break
-      case 'left':
-        left = rect.left - tooltipWidth - 20
-        top = rect.top + rect.height / 2 - tooltipHeight / 2
-        break
-      case 'right':
-        left = rect.right + 20
-        top = rect.top + rect.height / 2 - tooltipHeight / 2
-        break
-      default:
-        left = rect.right + 20
-        top = rect.top
-    }
+    if (!target) {
+      // No target to anchor to, center the tooltip in the viewport
+      left = Math.max(TOOLTIP_VIEWPORT_MARGIN, window.innerWidth / 2 - renderedWidth / 2)
+      top = Math.max(TOOLTIP_VIEWPORT_MARGIN, window.innerHeight / 2 - tooltipHeight / 2)
+    } else {
+      // Place around the padded spotlight rectangle so the tooltip never covers it
+      const rect = getViewportRect(target)
+      const padding = step.spotlight?.padding ?? this.config.spotlight.padding
+      const [side, alignment] = step.position.split('-') as [TooltipSide | 'auto', PlacementAlignment | undefined]
+      const placement = computePlacement({
+        reference: {
+          left: rect.left - padding,
+          top: rect.top - padding,
+          right: rect.right + padding,
+          bottom: rect.bottom + padding,
+          width: rect.width + padding * 2,
+          height: rect.height + padding * 2
+        },
+        tooltip: { width: renderedWidth, height: tooltipHeight },
+        viewport: { width: window.innerWidth, height: window.innerHeight },
+        preferred: side,
+        alignment: alignment ?? 'center',
+        gap: TOOLTIP_GAP + (step.offset?.mainAxis ?? 0),
+        crossOffset: step.offset?.crossAxis ?? 0,
+        margin: TOOLTIP_VIEWPORT_MARGIN,
+        arrowPadding: ARROW_CORNER_PADDING
+      })
 
-    // Keep tooltip within viewport
-    left = Math.max(20, Math.min(left, window.innerWidth - tooltipWidth - 20))
-    top = Math.max(20, Math.min(top, window.innerHeight - tooltipHeight - 20))
+      left = placement.left
+      top = placement.top
+
+      // Point the arrow at the side that was actually chosen, at the target's center,
+      // and hide it when the tooltip had to be clamped somewhere it cannot point from
+      const arrow = this.state.tooltip.querySelector('.guida-arrow') as HTMLElement | null
+      if (arrow) {
+        const isVertical = placement.side === 'top' || placement.side === 'bottom'
+        const offset = placement.arrowOffset === null ? '' : `${placement.arrowOffset}px`
+        arrow.className = `guida-arrow guida-arrow-${placement.side}`
+        arrow.classList.toggle('guida-arrow-hidden', placement.arrowOffset === null)
+        arrow.style.left = isVertical ? offset : ''
+        arrow.style.top = isVertical ? '' : offset
+      }
+      this.state.tooltip.dataset.placement = placement.side
+    }
 
-    // Apply final position and make visible
+    // Apply final position
     this.state.tooltip.style.left = `${left}px`
     this.state.tooltip.style.top = `${top}px`
-    this.state.tooltip.style.visibility = 'visible'
+  }
 
-    // Setup event listeners to tooltip buttons
-    this.setupTooltipEvents()
+  /**
+   * Render a title or description into an element, as text unless the step
+   * or the config opts into sanitized markup. DOM nodes are inserted as they are.
+   */
+  private renderContent(element: Element | null, content: StepContent, step?: OnboardingStep): void {
+    if (!element) return
+
+    if (typeof content !== 'string') {
+      element.replaceChildren(content)
+    } else if ((step?.contentMode ?? this.config.contentMode) === 'html') {
+      element.replaceChildren(sanitizeHtml(content))
+    } else {
+      element.textContent = content
+    }
+  }
+
+  /**
+   * Text of a title or description, without markup
+   */
+  private getPlainText(content: StepContent, step?: OnboardingStep): string {
+    if (typeof content !== 'string') {
+      return content.textContent ?? ''
+    }
+    return (step?.contentMode ?? this.config.contentMode) === 'html' ? sanitizeHtml(content).textContent ?? '' : content
+  }
+
+  /**
+   * Replace parts of the default tooltip layout with the global and step slots
+   */
+  private fillSlots(context: TooltipRenderContext): void {
+    const slots: TooltipSlots = { ...this.config.slots, ...context.step.slots }
+
+    for (const [name, selector] of Object.entries(TOOLTIP_SLOTS)) {
+      const render = slots[name as keyof TooltipSlots]
+      const element = this.state.tooltip?.querySelector(selector)
+      if (!render || !element) continue
+
+      // Keep the class and id of the replaced part so styles and ARIA references still apply
+      const slot = document.createElement('div')
+      slot.className = element.className
+      if (element.id) {
+        slot.id = element.id
+      }
+      appendContent(slot, render(context))
+      element.replaceWith(slot)
+    }
+  }
+
+  /**
+   * Label the dialog by its title and description, or by the given label when
+   * custom content leaves them out
+   */
+  private updateDialogLabels(label: string): void {
+    const tooltip = this.state.tooltip
+    if (!tooltip) return
+
+    const titleId = this.getElementId('title')
+    if (tooltip.querySelector(`#${titleId}`)) {
+      tooltip.setAttribute('aria-labelledby', titleId)
+      tooltip.removeAttribute('aria-label')
+    } else {
+      tooltip.removeAttribute('aria-labelledby')
+      tooltip.setAttribute('aria-label', label)
+    }
+
+    const descriptionId = this.getElementId('description')
+    if (tooltip.querySelector(`#${descriptionId}`)) {
+      tooltip.setAttribute('aria-describedby', descriptionId)
+    } else {
+      tooltip.removeAttribute('aria-describedby')
+    }
   }
 
   /**
@@ -455,21 +1717,171 @@ export class Guida {
     if (closeBtn) {
       closeBtn.addEventListener('click', () => this.close())
     }
+
+    const step = this.state.currentStepConfig
+    const stepIndex = this.state.currentStep
+
+    this.state.tooltip.querySelectorAll<HTMLButtonElement>('.guida-choice').forEach((button) => {
+      const choice = step?.choices?.[Number(button.dataset.choice)]
+      if (choice) {
+        button.addEventListener('click', () => this.choose(choice))
+      }
+    })
+
+    this.state.tooltip.querySelectorAll<HTMLButtonElement>('.guida-custom').forEach((button) => {
+      const customButton = step?.buttons?.[Number(button.dataset.button)]
+      if (step && customButton) {
+        button.addEventListener('click', () => customButton.onClick(this, step, stepIndex))
+      }
+    })
   }
 
   /**
    * Setup interaction handling for the current step
    */
-  private setupStepInteraction(target: HTMLElement, step: OnboardingStep): void {
-    if (step.action === 'click') {
-      const handleClick = () => {
-        target.removeEventListener('click', handleClick)
-        setTimeout(() => {
-          this.nextStep()
-        }, 500)
+  private setupStepInteraction(target: HTMLElement | null, step: OnboardingStep): void {
+    this.teardownStepInteraction()
+
+    const options = step.actionOptions ?? {}
+    const cleanups: (() => void)[] = []
+    let advanceTimer: ReturnType<typeof setTimeout> | null = null
+    let checkCondition: (() => void) | null = null
+
+    // Give the user a moment to see the result of their action before moving on
+    const advance = () => {
+      this.teardownStepInteraction()
+      setTimeout(() => {
+        this.nextStep()
+      }, 500)
+    }
+
+    // Listen on the given element, or for events from the action target when the step has one
+    const listen = (element: EventTarget | null, type: string, handler: (event: Event) => void) => {
+      const actionTarget = step.actionTarget
+      if (actionTarget !== undefined) {
+        // Delegated from the document in the capture phase, so re-rendered action
+        // targets still count and events that do not bubble are seen too
+        const root = target?.ownerDocument ?? document
+        const delegated = (event: Event) => {
+          const matched = isEventFromTarget(event, actionTarget)
+          if (matched instanceof Promise) {
+            matched.then((isMatch) => isMatch && handler(event))
+          } else if (matched) {
+            handler(event)
+          }
+        }
+        root.addEventListener(type, delegated, true)
+        cleanups.push(() => root.removeEventListener(type, delegated, true))
+        return
       }
 
-      target.addEventListener('click', handleClick)
+      if (!element) return
+      element.addEventListener(type, handler)
+      cleanups.push(() => element.removeEventListener(type, handler))
+    }
+
+    const isValid = (event: Event, fallback: (value: string) => boolean) => {
+      const field = (event.composedPath()[0] ?? event.target) as HTMLInputElement
+      const value = field.value ?? ''
+      return options.validate ? options.validate(value, field) : fallback(value)
+    }
+
+    switch (step.action) {
+      case 'click':
+        listen(target, 'click', advance)
+        break
+
+      case 'hover':
+        listen(target, 'mouseenter', advance)
+        break
+
+      case 'input':
+        // Debounced, so the step does not move on while the user is still typing
+        listen(target, 'input', (event) => {
+          if (advanceTimer) clearTimeout(advanceTimer)
+          advanceTimer = isValid(event, (value) => value.trim() !== '') ? setTimeout(advance, 500) : null
+        })
+        break
+
+      case 'change':
+        listen(target, 'change', (event) => {
+          if (isValid(event, () => true)) advance()
+        })
+        break
+
+      case 'event':
+        if (options.event) listen(target ?? document, options.event, advance)
+        break
+
+      case 'waitFor':
+        if (options.waitFor && typeof MutationObserver !== 'undefined') {
+          const predicate = options.waitFor
+          checkCondition = () => {
+            try {
+              if (predicate()) advance()
+            } catch (error) {
+              console.warn('Spotlight Onboarding: waitFor predicate failed', error)
+            }
+          }
+          const observer = new MutationObserver(checkCondition)
+          observer.observe(document.documentElement, {
+            childList: true,
+            subtree: true,
+            attributes: true,
+            characterData: true
+          })
+          cleanups.push(() => observer.disconnect())
+        }
+        break
+    }
+
+    this.state.interactionCleanup = () => {
+      if (advanceTimer) clearTimeout(advanceTimer)
+      cleanups.forEach((cleanup) => cleanup())
+    }
+
+    // A condition that already holds moves on without waiting for a mutation.
+    // Checked once the cleanup is in place, so advancing disconnects the observer.
+    checkCondition?.()
+  }
+
+  /**
+   * Get the hint telling the user what to do for an interactive step, if any
+   */
+  private getActionHint(step: OnboardingStep, hasTarget: boolean): string | null {
+    const hint = step.actionOptions?.hint
+    if (hint === false) return null
+    if (hint) return hint
+
+    // Element actions cannot be completed on modal steps without an action target,
+    // those get a Next button instead
+    if (!hasTarget && step.actionTarget === undefined && step.action !== 'event' && step.action !== 'waitFor') return null
+
+    switch (step.action) {
+      case 'click':
+        return 'Click the highlighted element to continue'
+      case 'input':
+        return 'Type in the highlighted field to continue'
+      case 'hover':
+        return 'Hover over the highlighted element to continue'
+      case 'change':
+        return 'Change the highlighted field to continue'
+      case 'event':
+      case 'waitFor':
+        return 'Complete the task to continue'
+      default:
+        return null
+    }
+  }
+
+
+  /**
+   * Remove interaction listeners of the current step
+   */
+  private teardownStepInteraction(): void {
+    if (this.state.interactionCleanup) {
+      this.state.interactionCleanup()
+      this.state.interactionCleanup = null
     }
   }
 
@@ -477,58 +1889,140 @@ export class Guida {
    * Move to the next step
    */
   public nextStep(): void {
-    const currentStep = this.config.steps[this.state.currentStep]
-    this.state.currentStep++
-    this.hideTooltip()
-
-    // Emit navigation event
-    this.emit('stepNavigation', {
-      direction: 'next',
-      fromStep: this.state.currentStep - 1,
-      toStep: this.state.currentStep,
-      fromStepConfig: currentStep
-    })
+    if (this.state.pendingHook || this.state.showingCompletion) return
 
-    setTimeout(() => {
-      this.showStep(this.state.currentStep)
-    }, 300)
+    const nextIndex = this.getNextStepIndex(this.state.currentStep)
+    if (nextIndex !== null) {
+      this.guardStepChange('next', nextIndex, (stepIndex) => this.moveToStep(stepIndex, 'next'))
+    }
   }
 
   /**
-   * Move to the previous step
+   * Move to the previous step on the path the user took
    */
   public previousStep(): void {
-    if (this.state.currentStep > 0) {
-      const currentStep = this.config.steps[this.state.currentStep]
-      this.state.currentStep--
-      this.hideTooltip()
+    if (this.state.pendingHook || this.state.showingCompletion) return
 
-      // Emit navigation event
-      this.emit('stepNavigation', {
-        direction: 'previous',
-        fromStep: this.state.currentStep + 1,
-        toStep: this.state.currentStep,
-        fromStepConfig: currentStep
-      })
+    const previousIndex = this.getPreviousStepIndex()
+    if (previousIndex !== null) {
+      this.guardStepChange('previous', previousIndex, (stepIndex) => this.moveToStep(stepIndex, 'previous'))
+    }
+  }
 
-      setTimeout(() => {
-        this.showStep(this.state.currentStep)
-      }, 300)
+  /**
+   * Go to a specific step by index or id
+   */
+  public goToStep(step: number | string): void {
+    if (this.state.pendingHook || this.state.showingCompletion) return
+
+    const stepIndex = typeof step === 'string' ? this.findStepIndex(step) : step
+    if (stepIndex !== null && stepIndex >= 0 && stepIndex < this.config.steps.length) {
+      this.guardStepChange('goto', stepIndex, (index) => this.moveToStep(index, 'goto'))
+    }
+  }
+
+  /**
+   * Follow a choice of the current step
+   */
+  private choose(choice: StepChoice): void {
+    if (this.state.pendingHook || this.state.showingCompletion) return
+
+    const stepIndex = this.findStepIndex(choice.next)
+    if (stepIndex !== null) {
+      this.guardStepChange('next', stepIndex, (index) => this.moveToStep(index, 'next'))
     }
   }
 
   /**
-   * Go to a specific step
+   * Leave the current step and show another one, completing the tour past the last step.
+   * Emits stepNavigation when moving to the next or previous step.
    */
-  public goToStep(stepIndex: number): void {
-    if (stepIndex >= 0 && stepIndex < this.config.steps.length) {
+  private moveToStep(stepIndex: number | null, direction: TourDirection): void {
+    if (stepIndex === null || stepIndex < 0 || stepIndex > this.config.steps.length) {
+      console.warn(`Spotlight Onboarding: Cannot move to step ${stepIndex}`)
+      return
+    }
+
+    this.leaveStep(() => {
+      const fromStep = this.state.currentStep
       this.state.currentStep = stepIndex
+      this.state.direction = direction
       this.hideTooltip()
 
-      setTimeout(() => {
+      // Emit navigation event
+      if (direction === 'next' || direction === 'previous') {
+        this.emit('stepNavigation', {
+          direction,
+          fromStep,
+          toStep: stepIndex,
+          fromStepConfig: this.config.steps[fromStep]
+        })
+      }
+
+      if (this.state.transitionTimer !== null) {
+        clearTimeout(this.state.transitionTimer)
+      }
+      this.state.transitionTimer = setTimeout(() => {
+        this.state.transitionTimer = null
         this.showStep(this.state.currentStep)
       }, 300)
+    })
+  }
+
+  /**
+   * Run the beforeStepChange guards, then call `proceed` with the step to move to,
+   * or null when closing. Any guard can cancel the move by returning false, the
+   * first guard returning a step index redirects it. Runs synchronously unless a
+   * guard returns a promise, in which case navigation is ignored until it settles.
+   */
+  private guardStepChange(
+    direction: StepChangeDirection,
+    nextStepIndex: number | null,
+    proceed: (stepIndex: number | null) => void
+  ): void {
+    const guards = (this.eventListeners.get('beforeStepChange') ?? []) as NavigationGuard[]
+    if (guards.length === 0 || !this.state.isActive) {
+      proceed(nextStepIndex)
+      return
+    }
+
+    const currentStepIndex = this.state.currentStep
+    const change = { currentStepIndex, nextStepIndex, direction }
+
+    // Guards that fail cancel the move
+    const fail = (error: unknown): false => {
+      this.reportError(error, 'beforeStepChange', this.config.steps[currentStepIndex] ?? null, currentStepIndex)
+      return false
+    }
+
+    const results = guards.map((guard) => {
+      try {
+        return guard(change)
+      } catch (error) {
+        return fail(error)
+      }
+    })
+
+    const decide = (values: NavigationGuardResult[]) => {
+      if (values.includes(false)) return
+      const redirect = values.find((value): value is number => typeof value === 'number')
+      proceed(redirect ?? nextStepIndex)
+    }
+
+    if (!results.some((result) => result instanceof Promise)) {
+      decide(results as NavigationGuardResult[])
+      return
     }
+
+    const pending = Promise.all(results.map((result) => Promise.resolve(result).catch(fail)))
+    this.state.pendingHook = pending
+
+    pending.then((values) => {
+      // Ignore guards that were superseded, e.g. by closing the tour
+      if (this.state.pendingHook !== pending) return
+      this.state.pendingHook = null
+      decide(values)
+    })
   }
 
   /**
@@ -544,39 +2038,112 @@ export class Guida {
    * Complete the onboarding flow
    */
   public complete(): void {
+    const completion = this.config.completion
+
     this.clearHighlights()
-    this.showCompletionMessage()
+    if (completion) {
+      this.showCompletionMessage(completion)
+    }
     this.markAsCompleted()
 
     this.emit('complete')
     this.config.callbacks.onComplete?.()
 
-    setTimeout(() => {
+    if (!completion) {
       this.cleanup()
-    }, 3000)
+    } else if (completion.duration !== false) {
+      this.state.completionTimer = setTimeout(() => {
+        this.cleanup()
+      }, completion.duration ?? 3000)
+    }
   }
 
   /**
    * Show completion message
    */
-  private showCompletionMessage(): void {
-    if (this.state.tooltip) {
-      this.state.tooltip.innerHTML = `
+  private showCompletionMessage(options: CompletionOptions): void {
+    const tooltip = this.state.tooltip
+    if (!tooltip) return
+
+    this.state.showingCompletion = true
+    const title = options.title ?? "You're All Set!"
+
+    if (options.render) {
+      tooltip.replaceChildren()
+      appendContent(tooltip, options.render(this))
+    } else {
+      const buttons = options.buttons ?? []
+      const closable = options.duration === false
+
+      tooltip.innerHTML = `
         <div class="guida-tooltip-content guida-completion">
-          <div class="guida-completion-icon">🎉</div>
-          <h3>You're All Set!</h3>
-          <p>You've completed the tour! You can now use all the features.</p>
+          <div class="guida-completion-icon" aria-hidden="true"></div>
+          <h3 class="guida-title" id="${this.getElementId('title')}"></h3>
+          <p class="guida-description" id="${this.getElementId('description')}"></p>
+          ${buttons.length || closable ? `
+            <div class="guida-controls">
+              ${buttons.map((button, index) => `<button class="guida-btn guida-btn-${button.variant ?? 'primary'} guida-completion-button" data-button="${index}">${escapeHtml(button.label)}</button>`).join('')}
+              ${closable ? '<button class="guida-btn guida-btn-text guida-close">Close</button>' : ''}
+            </div>
+          ` : ''}
         </div>
       `
-      this.state.tooltip.classList.add('guida-visible')
+
+      const icon = tooltip.querySelector('.guida-completion-icon')
+      if (options.icon === '') {
+        icon?.remove()
+      } else {
+        this.renderContent(icon, options.icon ?? '🎉')
+      }
+      this.renderContent(tooltip.querySelector('.guida-title'), title)
+      this.renderContent(tooltip.querySelector('.guida-description'), options.body ?? "You've completed the tour! You can now use all the features.")
+
+      tooltip.querySelectorAll<HTMLButtonElement>('.guida-completion-button').forEach((element) => {
+        const button = buttons[Number(element.dataset.button)]
+        element.addEventListener('click', () => button.onClick(this))
+      })
+      tooltip.querySelector('.guida-close')?.addEventListener('click', () => this.close())
     }
+
+    tooltip.classList.add('guida-visible')
+    this.updateDialogLabels(this.getPlainText(title))
+    this.announce(this.getPlainText(title))
   }
 
   /**
    * Close the onboarding flow
    */
   public close(): void {
-    this.markAsCompleted()
+    // The tour is already over, closing only dismisses the completion screen
+    if (this.state.showingCompletion) {
+      this.cleanup()
+      return
+    }
+
+    // Closing is always allowed and supersedes any pending hook or guard
+    this.state.pendingHook = null
+    this.setLoading(false)
+
+    this.guardStepChange('close', null, (stepIndex) => {
+      // A guard redirected the close to another step
+      if (stepIndex !== null) {
+        this.moveToStep(stepIndex, 'goto')
+        return
+      }
+
+      this.leaveStep(() => {
+        this.markAsCompleted()
+        this.emit('close')
+        this.config.callbacks.onClose?.()
+        this.cleanup()
+      })
+    })
+  }
+
+  /**
+   * End the tour without marking it completed so it can run again later
+   */
+  private abort(): void {
     this.emit('close')
     this.config.callbacks.onClose?.()
     this.cleanup()
@@ -587,6 +2154,18 @@ export class Guida {
    */
   private cleanup(): void {
     this.state.isActive = false
+    this.state.pendingHook = null
+    this.state.showingCompletion = false
+    if (this.state.completionTimer !== null) {
+      clearTimeout(this.state.completionTimer)
+      this.state.completionTimer = null
+    }
+    if (this.state.transitionTimer !== null) {
+      clearTimeout(this.state.transitionTimer)
+      this.state.transitionTimer = null
+    }
+    this.cancelTargetWait()
+    this.teardownStepInteraction()
     this.clearHighlights()
 
     // Remove resize handler
@@ -595,7 +2174,41 @@ export class Guida {
       this.state.resizeHandler = null
     }
 
+    // Remove pointer handler
+    const pointerHandler = this.state.pointerHandler
+    if (pointerHandler) {
+      POINTER_EVENTS.forEach((type) => window.removeEventListener(type, pointerHandler, true))
+      this.state.pointerHandler = null
+    }
+
+    // Release focus and return it to where it was before the tour
+    if (this.state.focusTrapCleanup) {
+      this.state.focusTrapCleanup()
+      this.state.focusTrapCleanup = null
+    }
+    if (this.state.returnFocus?.isConnected) {
+      this.state.returnFocus.focus({ preventScroll: true })
+    }
+    this.state.returnFocus = null
+
+    // Remove keyboard handler
+    if (this.state.keydownHandler) {
+      document.removeEventListener('keydown', this.state.keydownHandler)
+      this.state.keydownHandler = null
+    }
+
+    // Stop layout tracking
+    if (this.state.layoutFrame !== null) {
+      cancelAnimationFrame(this.state.layoutFrame)
+      this.state.layoutFrame = null
+    }
+    if (this.state.resizeObserver) {
+      this.state.resizeObserver.disconnect()
+      this.state.resizeObserver = null
+    }
+
     // Remove scroll handler
+    this.watchFrameScroll(null)
     if (this.state.scrollHandler) {
       window.removeEventListener('scroll', this.state.scrollHandler, true)
       document.removeEventListener('scroll', this.state.scrollHandler, true)
@@ -613,25 +2226,50 @@ export class Guida {
       this.state.tooltip = null
     }
 
+    if (this.state.liveRegion) {
+      this.state.liveRegion.remove()
+      this.state.liveRegion = null
+    }
+
+    document.getElementById(this.getElementId('theme'))?.remove()
+
     this.state.currentHighlightedElement = null
     this.state.currentStepConfig = null
+    this.state.currentTarget = null
+    this.state.additionalTargets = []
+    this.state.isScrolling = false
   }
 
   /**
    * Clear all highlights and reset backdrop
    */
   private clearHighlights(): void {
-    document.querySelectorAll('.guida-highlight').forEach((el) => {
-      el.classList.remove('guida-highlight')
-      if (this.config.customClasses.highlight) {
-        el.classList.remove(this.config.customClasses.highlight)
-      }
-    })
+    this.removeHighlightClasses()
+    this.spotlightRects = []
 
     const backdrop = this.state.overlay?.querySelector('.guida-backdrop') as HTMLElement
     if (backdrop) {
       backdrop.style.clipPath = 'none'
+      backdrop.innerHTML = ''
+    }
+  }
+
+  /**
+   * Remove highlight classes, including from targets inside shadow roots and iframes
+   */
+  private removeHighlightClasses(): void {
+    const highlighted = new Set<Element>(document.querySelectorAll('.guida-highlight'))
+    if (this.state.currentHighlightedElement) {
+      highlighted.add(this.state.currentHighlightedElement)
     }
+    this.state.additionalTargets.forEach((el) => highlighted.add(el))
+
+    highlighted.forEach((el) => {
+      el.classList.remove('guida-highlight', this.highlightClass)
+      if (this.config.customClasses.highlight) {
+        el.classList.remove(this.config.customClasses.highlight)
+      }
+    })
   }
 
   /**
@@ -686,11 +2324,14 @@ export class Guida {
   }
 
   /**
-   * Add event listener
+   * Add event listener. `beforeStepChange` listeners are navigation guards that
+   * can cancel or redirect the move.
    */
+  public on(event: 'beforeStepChange', callback: NavigationGuard): void
+  public on<K extends keyof OnboardingEvents>(event: K, callback: (data: OnboardingEvents[K]) => void): void
   public on<K extends keyof OnboardingEvents>(
     event: K,
-    callback: (data: OnboardingEvents[K]) => void
+    callback: (data: OnboardingEvents[K]) => unknown
   ): void {
     if (!this.eventListeners.has(event)) {
       this.eventListeners.set(event, [])
@@ -701,9 +2342,11 @@ export class Guida {
   /**
    * Remove event listener
    */
+  public off(event: 'beforeStepChange', callback: NavigationGuard): void
+  public off<K extends keyof OnboardingEvents>(event: K, callback: (data: OnboardingEvents[K]) => void): void
   public off<K extends keyof OnboardingEvents>(
     event: K,
-    callback: (data: OnboardingEvents[K]) => void
+    callback: (data: OnboardingEvents[K]) => unknown
   ): void {
     const listeners = this.eventListeners.get(event)
     if (listeners) {
@@ -0,0 +1,184 @@
+import type { ViewportRect } from './targets'
+import type { TooltipSide } from './types'
+
+/**
+ * Alignment of the tooltip along the side of the target
+ */
+export type PlacementAlignment = 'start' | 'center' | 'end'
+
+/**
+ * Input for computing a tooltip placement, all in viewport coordinates
+ */
+export interface PlacementOptions {
+  /** Padded spotlight rectangle the tooltip must not overlap */
+  reference: ViewportRect
+  /** Measured tooltip size */
+  tooltip: { width: number; height: number }
+  /** Viewport size */
+  viewport: { width: number; height: number }
+  /** Preferred side, or 'auto' to pick the side with the most room */
+  preferred: TooltipSide | 'auto'
+  /** Alignment along the chosen side, kept when the side flips */
+  alignment?: PlacementAlignment
+  /** Shift along the chosen side (in pixels), positive moves right or down */
+  crossOffset?: number
+  /** Distance between the reference and the tooltip (in pixels) */
+  gap: number
+  /** Minimum distance between the tooltip and the viewport edges (in pixels) */
+  margin: number
+  /** Minimum distance between the arrow and the tooltip corners (in pixels) */
+  arrowPadding?: number
+}
+
+/**
+ * Computed tooltip placement
+ */
+export interface PlacementResult {
+  side: TooltipSide
+  left: number
+  top: number
+  /**
+   * Position of the arrow along the tooltip edge facing the reference (in pixels),
+   * or null when the arrow cannot point at the reference
+   */
+  arrowOffset: number | null
+}
+
+const OPPOSITE_SIDES: Record<TooltipSide, TooltipSide> = {
+  top: 'bottom',
+  bottom: 'top',
+  left: 'right',
+  right: 'left'
+}
+
+/**
+ * Room available on each side of the reference, minus gap and margin
+ */
+function getAvailableSpace(options: PlacementOptions): Record<TooltipSide, number> {
+  const { reference, viewport, gap, margin } = options
+  return {
+    top: reference.top - gap - margin,
+    bottom: viewport.height - reference.bottom - gap - margin,
+    left: reference.left - gap - margin,
+    right: viewport.width - reference.right - gap - margin
+  }
+}
+
+/**
+ * Order in which sides are tried: the preferred side, its opposite, then the rest.
+ * 'auto' tries the sides with the most room first.
+ */
+function getSideOrder(options: PlacementOptions, space: Record<TooltipSide, number>): TooltipSide[] {
+  if (options.preferred === 'auto') {
+    return (Object.keys(space) as TooltipSide[]).sort((a, b) => space[b] - space[a])
+  }
+
+  const preferred = options.preferred
+  const opposite = OPPOSITE_SIDES[preferred]
+  const rest = (Object.keys(OPPOSITE_SIDES) as TooltipSide[]).filter((side) => side !== preferred && side !== opposite)
+  return [preferred, opposite, ...rest]
+}
+
+/**
+ * Clamp a value between a minimum and maximum, preferring the minimum when they cross
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(value, max))
+}
+
+/**
+ * Compute where the arrow goes along the tooltip edge so it points at the
+ * reference center. The arrow is kept away from the tooltip corners and must
+ * stay within the reference span; returns null when that is impossible or the
+ * tooltip is not clear of the reference on the chosen side.
+ */
+function getArrowOffset(side: TooltipSide, left: number, top: number, options: PlacementOptions): number | null {
+  const { reference, tooltip } = options
+  const arrowPadding = options.arrowPadding ?? 0
+
+  const isClear = {
+    top: top + tooltip.height <= reference.top,
+    bottom: top >= reference.bottom,
+    left: left + tooltip.width <= reference.left,
+    right: left >= reference.right
+  }[side]
+  if (!isClear) return null
+
+  const isVertical = side === 'top' || side === 'bottom'
+  const edgeStart = isVertical ? left : top
+  const edgeLength = isVertical ? tooltip.width : tooltip.height
+
+  // Reference span relative to the tooltip edge
+  const spanStart = (isVertical ? reference.left : reference.top) - edgeStart
+  const spanEnd = (isVertical ? reference.right : reference.bottom) - edgeStart
+
+  const min = Math.max(arrowPadding, spanStart)
+  const max = Math.min(edgeLength - arrowPadding, spanEnd)
+  if (min > max) return null
+
+  return clamp((spanStart + spanEnd) / 2, min, max)
+}
+
+/**
+ * Position the tooltip on a side, aligned to the reference and clamped
+ * into the viewport along the cross axis
+ */
+function placeOnSide(side: TooltipSide, options: PlacementOptions): PlacementResult {
+  const { reference, tooltip, viewport, gap, margin } = options
+  const alignment = options.alignment ?? 'center'
+  const crossOffset = options.crossOffset ?? 0
+
+  if (side === 'top' || side === 'bottom') {
+    const aligned = alignment === 'start'
+      ? reference.left
+      : alignment === 'end'
+        ? reference.right - tooltip.width
+        : reference.left + reference.width / 2 - tooltip.width / 2
+    const left = clamp(aligned + crossOffset, margin, viewport.width - tooltip.width - margin)
+
+    const top = side === 'top' ? reference.top - gap - tooltip.height : reference.bottom + gap
+    return { side, left, top, arrowOffset: getArrowOffset(side, left, top, options) }
+  }
+
+  const aligned = alignment === 'start'
+    ? reference.top
+    : alignment === 'end'
+      ? reference.bottom - tooltip.height
+      : reference.top + reference.height / 2 - tooltip.height / 2
+  const top = clamp(aligned + crossOffset, margin, viewport.height - tooltip.height - margin)
+
+  const left = side === 'left' ? reference.left - gap - tooltip.width : reference.right + gap
+  return { side, left, top, arrowOffset: getArrowOffset(side, left, top, options) }
+}
+
+/**
+ * Compute where to put the tooltip. Tries the preferred side, flips to the
+ * opposite side, then tries the remaining sides, taking the first one where
+ * the tooltip fits without overlapping the reference. When no side has room,
+ * the side with the most room is used and the tooltip is kept in the viewport.
+ */
+export function computePlacement(options: PlacementOptions): PlacementResult {
+  const space = getAvailableSpace(options)
+  const order = getSideOrder(options, space)
+
+  for (const side of order) {
+    const needed = side === 'top' || side === 'bottom' ? options.tooltip.height : options.tooltip.width
+    if (space[side] >= needed) {
+      return placeOnSide(side, options)
+    }
+  }
+
+  // Nothing fits, use the side with the most room relative to what it needs
+  const best = order.reduce((a, b) => {
+    const fit = (side: TooltipSide) =>
+      space[side] - (side === 'top' || side === 'bottom' ? options.tooltip.height : options.tooltip.width)
+    return fit(b) > fit(a) ? b : a
+  })
+
+  const placement = placeOnSide(best, options)
+  const { tooltip, viewport, margin } = options
+  const left = clamp(placement.left, margin, viewport.width - tooltip.width - margin)
+  const top = clamp(placement.top, margin, viewport.height - tooltip.height - margin)
+
+  return { side: best, left, top, arrowOffset: getArrowOffset(best, left, top, options) }
+}
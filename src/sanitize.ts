@@ -0,0 +1,117 @@
+/**
+ * Elements kept by the sanitizer, anything else is unwrapped to its content
+ */
+const ALLOWED_TAGS = new Set([
+  'A', 'ABBR', 'B', 'BLOCKQUOTE', 'BR', 'CODE', 'DEL', 'EM', 'I', 'KBD', 'LI', 'MARK',
+  'OL', 'P', 'PRE', 'S', 'SMALL', 'SPAN', 'STRONG', 'SUB', 'SUP', 'U', 'UL'
+])
+
+/**
+ * Elements removed together with their content
+ */
+const DROPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'TEMPLATE', 'NOSCRIPT', 'IFRAME', 'FRAME', 'OBJECT', 'EMBED',
+  'SVG', 'MATH', 'TEXTAREA', 'SELECT', 'TITLE'
+])
+
+/**
+ * Attributes kept on any allowed element, and on specific ones. Classes are left
+ * out, so content cannot pose as the tour's own buttons.
+ */
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['title'],
+  A: ['href', 'target', 'rel']
+}
+
+/**
+ * Link schemes that cannot run script
+ */
+const SAFE_URL_SCHEMES = ['http', 'https', 'mailto', 'tel']
+
+/**
+ * Check whether a link is relative or uses a safe scheme. Browsers ignore
+ * whitespace and control characters in schemes, so they are ignored here too.
+ */
+function isSafeUrl(url: string): boolean {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url.replace(/[\u0000-\u0020]/g, ''))
+  return !scheme || SAFE_URL_SCHEMES.includes(scheme[1].toLowerCase())
+}
+
+/**
+ * Check whether an attribute is allowed on an element and has a safe value
+ */
+function isAllowedAttribute(tagName: string, attribute: Attr): boolean {
+  const name = attribute.name.toLowerCase()
+  const allowed = ALLOWED_ATTRIBUTES['*'].includes(name) || ALLOWED_ATTRIBUTES[tagName]?.includes(name)
+  if (!allowed) return false
+
+  if (name === 'href') {
+    return isSafeUrl(attribute.value)
+  }
+  return true
+}
+
+/**
+ * Remove disallowed elements, attributes and comments below a node
+ */
+function sanitizeChildren(parent: ParentNode): void {
+  for (const node of Array.from(parent.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) continue
+
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      node.remove()
+      continue
+    }
+
+    const element = node as Element
+    const tagName = element.tagName.toUpperCase()
+
+    if (!ALLOWED_TAGS.has(tagName)) {
+      if (DROPPED_TAGS.has(tagName)) {
+        element.remove()
+      } else {
+        sanitizeChildren(element)
+        element.replaceWith(...Array.from(element.childNodes))
+      }
+      continue
+    }
+
+    for (const attribute of Array.from(element.attributes)) {
+      if (!isAllowedAttribute(tagName, attribute)) {
+        element.removeAttribute(attribute.name)
+      }
+    }
+
+    // Pages opened from the tour must not get a handle on it
+    if (tagName === 'A' && element.getAttribute('target') === '_blank') {
+      element.setAttribute('rel', 'noopener noreferrer')
+    }
+
+    sanitizeChildren(element)
+  }
+}
+
+/**
+ * Parse markup into a fragment that only keeps an allow-list of formatting
+ * elements and attributes. Scripts, event handler attributes, styles and
+ * `javascript:` links are stripped. The markup is parsed in an inert template,
+ * so nothing in it runs or loads while it is sanitized.
+ */
+export function sanitizeHtml(html: string): DocumentFragment {
+  const template = document.createElement('template')
+  template.innerHTML = html
+  sanitizeChildren(template.content)
+  return template.content
+}
+
+/**
+ * Escape text for use in markup
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
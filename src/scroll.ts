@@ -0,0 +1,158 @@
+import { getFrameChain, getViewportRect } from './targets'
+
+/**
+ * Scroll options with defaults applied
+ */
+export interface ResolvedScrollOptions {
+  offsetTop: number
+  offsetBottom: number
+  container: HTMLElement | Window | null
+  behavior: 'smooth' | 'instant'
+}
+
+/**
+ * Check whether a scroll container is a window, without relying on the
+ * `Window` constructor of the current realm
+ */
+function isWindow(container: HTMLElement | Window): container is Window {
+  return (container as Window).window === container
+}
+
+/**
+ * Check whether an overflow value lets an element scroll
+ */
+function isScrollableOverflow(overflow: string): boolean {
+  return overflow === 'auto' || overflow === 'scroll' || overflow === 'overlay'
+}
+
+/**
+ * Find the nearest ancestor that scrolls vertically or horizontally, or the window
+ */
+export function getScrollContainer(element: HTMLElement): HTMLElement | Window {
+  let parent = element.parentElement
+
+  while (parent && parent !== document.body && parent !== document.documentElement) {
+    const { overflowX, overflowY } = getComputedStyle(parent)
+    if (
+      (isScrollableOverflow(overflowY) && parent.scrollHeight > parent.clientHeight) ||
+      (isScrollableOverflow(overflowX) && parent.scrollWidth > parent.clientWidth)
+    ) {
+      return parent
+    }
+    parent = parent.parentElement
+  }
+
+  return window
+}
+
+/**
+ * Distance to scroll along one axis so the target is centered in the visible
+ * area, or aligned with its start when it is larger than the area. Returns 0
+ * when the target is already fully visible.
+ */
+function getScrollDelta(targetStart: number, targetEnd: number, areaStart: number, areaEnd: number): number {
+  if (targetStart >= areaStart && targetEnd <= areaEnd) {
+    return 0
+  }
+
+  const targetSize = targetEnd - targetStart
+  const areaSize = areaEnd - areaStart
+  if (targetSize > areaSize) {
+    return targetStart - areaStart
+  }
+
+  return targetStart + targetSize / 2 - (areaStart + areaSize / 2)
+}
+
+/**
+ * Scroll a container by the given distance
+ */
+function scrollContainerBy(container: HTMLElement | Window, left: number, top: number, behavior: 'smooth' | 'instant'): void {
+  if (typeof container.scrollBy === 'function') {
+    container.scrollBy({ left, top, behavior })
+  } else {
+    // Older engines without scrollBy on elements
+    const element = container as HTMLElement
+    element.scrollLeft += left
+    element.scrollTop += top
+  }
+}
+
+/**
+ * Scroll the target into the visible part of its scroll container, keeping
+ * clear of the top and bottom offsets, then scroll each outer container and
+ * the window so the target is visible on the page too. Returns whether a
+ * scroll was started.
+ */
+export function scrollTargetIntoView(element: HTMLElement, options: ResolvedScrollOptions): boolean {
+  // Offsets and containers apply to the top-level document, let the browser
+  // scroll targets inside iframes through every frame
+  if (getFrameChain(element).length > 0) {
+    element.scrollIntoView({ behavior: options.behavior, block: 'center', inline: 'center' })
+    return true
+  }
+
+  let container: HTMLElement | Window | null = options.container ?? getScrollContainer(element)
+  let { left, top, right, bottom } = getViewportRect(element)
+  let offsetTop = options.offsetTop
+  let offsetBottom = options.offsetBottom
+  let scrolled = false
+
+  while (container) {
+    const area = isWindow(container)
+      ? { left: 0, top: 0, right: container.innerWidth, bottom: container.innerHeight }
+      : container.getBoundingClientRect()
+
+    const deltaY = getScrollDelta(top, bottom, area.top + offsetTop, area.bottom - offsetBottom)
+    const deltaX = getScrollDelta(left, right, area.left, area.right)
+
+    if (deltaX !== 0 || deltaY !== 0) {
+      scrollContainerBy(container, deltaX, deltaY, options.behavior)
+      scrolled = true
+    }
+
+    if (isWindow(container)) break
+
+    // Where the target ends up, limited to the part of the container it shows in,
+    // is what the outer containers need to bring into view
+    left = Math.max(left - deltaX, area.left)
+    top = Math.max(top - deltaY, area.top)
+    right = Math.min(right - deltaX, area.right)
+    bottom = Math.min(bottom - deltaY, area.bottom)
+
+    // Offsets only apply to the target's own scroll container
+    offsetTop = 0
+    offsetBottom = 0
+    container = getScrollContainer(container)
+  }
+
+  return scrolled
+}
+
+/**
+ * Resolve once the element has stopped moving for a few frames, which covers
+ * smooth scrolling in any container, or after the timeout
+ */
+export function waitForScrollEnd(element: HTMLElement, timeout = 1000): Promise<void> {
+  const STABLE_FRAMES = 3
+
+  return new Promise((resolve) => {
+    const startedAt = Date.now()
+    let last = getViewportRect(element)
+    let stableFrames = 0
+
+    const check = () => {
+      const rect = getViewportRect(element)
+      stableFrames = rect.top === last.top && rect.left === last.left ? stableFrames + 1 : 0
+      last = rect
+
+      if (stableFrames >= STABLE_FRAMES || Date.now() - startedAt >= timeout) {
+        resolve()
+      } else {
+        requestAnimationFrame(check)
+      }
+    }
+
+    requestAnimationFrame(check)
+  })
+}
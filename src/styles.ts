@@ -1,5 +1,26 @@
+import { THEME_PRESETS, themeToCss } from './theme'
+
 export const DEFAULT_STYLES = `
 /* Guida.js Onboarding Styles */
+
+/* Theme tokens without specificity so page styles can override them,
+   instances set their own theme on their elements */
+:where(:root) {
+  ${themeToCss(THEME_PRESETS.light)}
+}
+
+@media (prefers-color-scheme: dark) {
+  :where(:root) {
+    ${themeToCss(THEME_PRESETS.dark).replace(/\n  /g, '\n    ')}
+  }
+}
+
+@media (prefers-contrast: more) {
+  :where(:root) {
+    ${themeToCss(THEME_PRESETS['high-contrast']).replace(/\n  /g, '\n    ')}
+  }
+}
+
 .guida-overlay {
   position: fixed;
   top: 0;
@@ -17,10 +38,35 @@ export const DEFAULT_STYLES = `
   width: 100%;
   height: 100%;
   background-color: rgba(0, 0, 0, 0.5);
+  background-color: color-mix(in srgb, var(--guida-backdrop-color) var(--guida-backdrop-opacity), transparent);
   backdrop-filter: blur(2px);
   transition: clip-path 0.3s ease-in-out;
 }
 
+.guida-loader {
+  display: none;
+  position: absolute;
+  top: 50%;
+  left: 50%;
+  width: 32px;
+  height: 32px;
+  margin: -16px 0 0 -16px;
+  border: 3px solid rgba(255, 255, 255, 0.3);
+  border-top-color: var(--guida-loader-color);
+  border-radius: 50%;
+  animation: guida-spin 0.8s linear infinite;
+}
+
+.guida-loading .guida-loader {
+  display: block;
+}
+
+@keyframes guida-spin {
+  to {
+    transform: rotate(360deg);
+  }
+}
+
 .guida-highlight {
   position: relative;
   z-index: 10001;
@@ -35,10 +81,10 @@ export const DEFAULT_STYLES = `
   left: -4px;
   right: -4px;
   bottom: -4px;
-  border: 2px solid #007acc;
-  border-radius: 12px;
-  box-shadow: 0 0 0 2px rgba(0, 122, 204, 0.2),
-              0 0 20px rgba(0, 122, 204, 0.3);
+  border: 2px solid var(--guida-highlight-color);
+  border-radius: var(--guida-highlight-radius);
+  box-shadow: 0 0 0 2px var(--guida-highlight-glow),
+              0 0 20px var(--guida-highlight-glow);
   pointer-events: none;
   z-index: -1;
   animation: guida-pulse 2s infinite;
@@ -46,38 +92,82 @@ export const DEFAULT_STYLES = `
 
 @keyframes guida-pulse {
   0%, 100% {
-    box-shadow: 0 0 0 2px rgba(0, 122, 204, 0.2),
-                0 0 20px rgba(0, 122, 204, 0.3);
+    box-shadow: 0 0 0 2px var(--guida-highlight-glow),
+                0 0 20px var(--guida-highlight-glow);
   }
   50% {
-    box-shadow: 0 0 0 2px rgba(0, 122, 204, 0.4),
-                0 0 30px rgba(0, 122, 204, 0.5);
+    box-shadow: 0 0 0 4px var(--guida-highlight-glow),
+                0 0 30px var(--guida-highlight-glow);
   }
 }
 
 .guida-tooltip {
   position: fixed;
   z-index: 10002;
-  background: white;
-  border-radius: 12px;
-  box-shadow: 0 20px 40px rgba(0, 0, 0, 0.2);
+  background: var(--guida-tooltip-background);
+  border-radius: var(--guida-tooltip-radius);
+  box-shadow: var(--guida-tooltip-shadow);
+  font-family: var(--guida-font-family);
   padding: 0;
   opacity: 0;
   transform: scale(0.9) translateY(10px);
   transition: all 0.3s cubic-bezier(0.4, 0, 0.2, 1);
   pointer-events: auto;
-  border: 1px solid rgba(0, 0, 0, 0.1);
+  border: var(--guida-tooltip-border);
   max-width: 400px;
   min-width: 300px;
 }
 
+.guida-tooltip:focus {
+  outline: none;
+}
+
+.guida-live-region {
+  position: absolute;
+  width: 1px;
+  height: 1px;
+  margin: -1px;
+  padding: 0;
+  overflow: hidden;
+  clip: rect(0, 0, 0, 0);
+  white-space: nowrap;
+  border: 0;
+}
+
 .guida-tooltip.guida-visible {
   opacity: 1;
   transform: scale(1) translateY(0);
 }
 
 .guida-tooltip-content {
-  padding: 16px;
+  padding: var(--guida-tooltip-padding);
+}
+
+.guida-media {
+  margin: calc(var(--guida-tooltip-padding) * -1) calc(var(--guida-tooltip-padding) * -1) 12px;
+  border-radius: var(--guida-tooltip-radius) var(--guida-tooltip-radius) 0 0;
+  overflow: hidden;
+  background: var(--guida-surface-color);
+}
+
+.guida-media img,
+.guida-media video,
+.guida-media iframe {
+  display: block;
+  width: 100%;
+  height: auto;
+  border: 0;
+}
+
+.guida-media-iframe {
+  aspect-ratio: 16 / 9;
+}
+
+.guida-media-sized img,
+.guida-media-sized video,
+.guida-media-iframe iframe {
+  height: 100%;
+  object-fit: cover;
 }
 
 .guida-header {
@@ -90,29 +180,55 @@ export const DEFAULT_STYLES = `
 
 .guida-header h3 {
   margin: 0;
-  font-size: 16px;
+  font-size: var(--guida-title-font-size);
   font-weight: 600;
-  color: #1a1a1a;
+  color: var(--guida-title-color);
   line-height: 1.3;
   flex: 1;
 }
 
 .guida-progress {
-  background: #f8f9fa;
+  background: var(--guida-surface-color);
   padding: 2px 8px;
   border-radius: 12px;
   font-size: 11px;
-  color: #6c757d;
+  color: var(--guida-muted-color);
   font-weight: 500;
   white-space: nowrap;
-  border: 1px solid #e9ecef;
+  border: 1px solid var(--guida-border-color);
 }
 
 .guida-tooltip-content p {
   margin: 0 0 16px 0;
-  color: #495057;
+  color: var(--guida-text-color);
   line-height: 1.4;
-  font-size: 13px;
+  font-size: var(--guida-font-size);
+}
+
+.guida-tooltip-content p.guida-hint {
+  margin-top: -8px;
+  font-size: 12px;
+  font-style: italic;
+  color: var(--guida-muted-color);
+}
+
+.guida-choices {
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+  margin-bottom: 12px;
+}
+
+.guida-choice {
+  justify-content: flex-start;
+  background: var(--guida-surface-color);
+  color: var(--guida-choice-color);
+  border: 1px solid var(--guida-border-color);
+}
+
+.guida-choice:hover {
+  background: var(--guida-surface-hover-color);
+  border-color: var(--guida-choice-color);
 }
 
 .guida-actions {
@@ -134,8 +250,9 @@ export const DEFAULT_STYLES = `
 
 .guida-btn {
   padding: 6px 12px;
-  border-radius: 4px;
+  border-radius: var(--guida-button-radius);
   border: none;
+  font-family: inherit;
   font-size: 12px;
   font-weight: 500;
   cursor: pointer;
@@ -148,58 +265,67 @@ export const DEFAULT_STYLES = `
 }
 
 .guida-btn-secondary {
-  background: #f8f9fa;
-  color: #495057;
-  border: 1px solid #dee2e6;
+  background: var(--guida-surface-color);
+  color: var(--guida-text-color);
+  border: 1px solid var(--guida-border-color);
 }
 
 .guida-btn-secondary:hover {
-  background: #e9ecef;
-  border-color: #adb5bd;
+  background: var(--guida-surface-hover-color);
+  border-color: var(--guida-border-hover-color);
 }
 
 .guida-btn-text {
   background: transparent;
-  color: #6c757d;
-  border: 1px solid #dee2e6;
+  color: var(--guida-muted-color);
+  border: 1px solid var(--guida-border-color);
   min-width: 45px;
 }
 
 .guida-btn-text:hover {
-  background: #f8f9fa;
-  border-color: #adb5bd;
-  color: #495057;
+  background: var(--guida-surface-color);
+  border-color: var(--guida-border-hover-color);
+  color: var(--guida-text-color);
 }
 
 .guida-skip {
   background: transparent;
-  color: #6c757d;
-  border: 1px solid #dee2e6;
+  color: var(--guida-muted-color);
+  border: 1px solid var(--guida-border-color);
 }
 
 .guida-skip:hover {
-  background: #f8f9fa;
-  border-color: #adb5bd;
+  background: var(--guida-surface-color);
+  border-color: var(--guida-border-hover-color);
 }
 
 .guida-next {
-  background: #007acc;
-  color: white;
+  background: var(--guida-primary-color);
+  color: var(--guida-primary-text-color);
   min-width: 60px;
 }
 
 .guida-next:hover {
-  background: #0056b3;
+  background: var(--guida-primary-hover-color);
+}
+
+.guida-btn-primary {
+  background: var(--guida-primary-color);
+  color: var(--guida-primary-text-color);
+}
+
+.guida-btn-primary:hover {
+  background: var(--guida-primary-hover-color);
 }
 
 .guida-close {
-  background: #dc3545;
-  color: white;
+  background: var(--guida-danger-color);
+  color: var(--guida-danger-text-color);
   min-width: 45px;
 }
 
 .guida-close:hover {
-  background: #c82333;
+  background: var(--guida-danger-hover-color);
 }
 
 /* Tooltip arrows */
@@ -207,35 +333,39 @@ export const DEFAULT_STYLES = `
   position: absolute;
   width: 0;
   height: 0;
-  border: 8px solid transparent;
+  border: var(--guida-arrow-size) solid transparent;
 }
 
 .guida-arrow-top {
-  bottom: -16px;
+  bottom: calc(var(--guida-arrow-size) * -2);
   left: 50%;
   transform: translateX(-50%);
-  border-top-color: white;
+  border-top-color: var(--guida-tooltip-background);
 }
 
 .guida-arrow-bottom {
-  top: -16px;
+  top: calc(var(--guida-arrow-size) * -2);
   left: 50%;
   transform: translateX(-50%);
-  border-bottom-color: white;
+  border-bottom-color: var(--guida-tooltip-background);
 }
 
 .guida-arrow-left {
-  right: -16px;
+  right: calc(var(--guida-arrow-size) * -2);
   top: 50%;
   transform: translateY(-50%);
-  border-left-color: white;
+  border-left-color: var(--guida-tooltip-background);
 }
 
 .guida-arrow-right {
-  left: -16px;
+  left: calc(var(--guida-arrow-size) * -2);
   top: 50%;
   transform: translateY(-50%);
-  border-right-color: white;
+  border-right-color: var(--guida-tooltip-background);
+}
+
+.guida-arrow-hidden {
+  display: none;
 }
 
 /* Completion styles */
@@ -249,10 +379,14 @@ export const DEFAULT_STYLES = `
 }
 
 .guida-completion h3 {
-  color: #28a745;
+  color: var(--guida-success-color);
   margin-bottom: 12px;
 }
 
+.guida-completion .guida-controls {
+  justify-content: center;
+}
+
 /* Responsive adjustments */
 @media (max-width: 768px) {
   .guida-tooltip {
@@ -260,8 +394,8 @@ export const DEFAULT_STYLES = `
     min-width: 280px;
   }
   
-  .guida-tooltip-content {
-    padding: 20px;
+  .guida-tooltip {
+    --guida-tooltip-padding: 20px;
   }
   
   .guida-header {
@@ -279,71 +413,6 @@ export const DEFAULT_STYLES = `
   }
 }
 
-/* Dark theme support */
-@media (prefers-color-scheme: dark) {
-  .guida-tooltip {
-    background: #2d2d2d;
-    border-color: rgba(255, 255, 255, 0.1);
-  }
-  
-  .guida-header h3 {
-    color: #ffffff;
-  }
-  
-  .guida-tooltip-content p {
-    color: #cccccc;
-  }
-  
-  .guida-progress {
-    background: #404040;
-    color: #cccccc;
-  }
-  
-  .guida-skip {
-    background: transparent;
-    color: #cccccc;
-    border-color: #555 !important;
-  }
-  
-  .guida-skip:hover {
-    background: #404040;
-    border-color: #666 !important;
-  }
-  
-  .guida-arrow-top {
-    border-top-color: #2d2d2d;
-  }
-  
-  .guida-arrow-bottom {
-    border-bottom-color: #2d2d2d;
-  }
-  
-  .guida-arrow-left {
-    border-left-color: #2d2d2d;
-  }
-  
-  .guida-arrow-right {
-    border-right-color: #2d2d2d;
-  }
-}
-
-/* High contrast mode support */
-@media (prefers-contrast: high) {
-  .guida-backdrop {
-    background-color: rgba(0, 0, 0, 0.9);
-  }
-  
-  .guida-highlight::before {
-    border-color: #ffffff;
-    box-shadow: 0 0 0 2px rgba(255, 255, 255, 0.5),
-                0 0 20px rgba(255, 255, 255, 0.8);
-  }
-  
-  .guida-tooltip {
-    border: 2px solid #000000;
-  }
-}
-
 /* Reduced motion support */
 @media (prefers-reduced-motion: reduce) {
   .guida-backdrop,
@@ -356,5 +425,9 @@ export const DEFAULT_STYLES = `
   .guida-highlight::before {
     animation: none;
   }
+
+  .guida-loader {
+    animation-duration: 2s;
+  }
 }
 `
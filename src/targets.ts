@@ -0,0 +1,253 @@
+import type { StepTarget } from './types'
+
+/**
+ * A pending wait for a target element that can be cancelled
+ */
+export interface PendingTargetWait {
+  promise: Promise<HTMLElement | null>
+  cancel: () => void
+}
+
+/**
+ * Element bounds in top-level viewport coordinates
+ */
+export interface ViewportRect {
+  left: number
+  top: number
+  right: number
+  bottom: number
+  width: number
+  height: number
+}
+
+/**
+ * Options used while waiting for an element to appear
+ */
+interface WaitOptions {
+  timeout: number
+  strategy: 'observer' | 'polling'
+  interval: number
+}
+
+/**
+ * Wait until `find` returns an element or the timeout runs out.
+ * Resolves with `null` on timeout or when cancelled.
+ */
+export function waitForElement(
+  find: () => HTMLElement | null | Promise<HTMLElement | null>,
+  options: WaitOptions
+): PendingTargetWait {
+  let observer: MutationObserver | null = null
+  let pollTimer: ReturnType<typeof setInterval> | null = null
+  let timeoutTimer: ReturnType<typeof setTimeout> | null = null
+  let settle: (element: HTMLElement | null) => void = () => { }
+
+  const promise = new Promise<HTMLElement | null>((resolve) => {
+    let settled = false
+
+    settle = (element) => {
+      if (settled) return
+      settled = true
+
+      observer?.disconnect()
+      if (pollTimer) clearInterval(pollTimer)
+      if (timeoutTimer) clearTimeout(timeoutTimer)
+      resolve(element)
+    }
+
+    const check = () => {
+      const result = find()
+      if (result instanceof Promise) {
+        result.then((element) => element && settle(element))
+      } else if (result) {
+        settle(result)
+      }
+    }
+
+    if (options.strategy === 'observer' && typeof MutationObserver !== 'undefined') {
+      observer = new MutationObserver(check)
+      observer.observe(document.documentElement, {
+        childList: true,
+        subtree: true,
+        attributes: true
+      })
+    } else {
+      pollTimer = setInterval(check, options.interval)
+    }
+
+    timeoutTimer = setTimeout(() => settle(null), options.timeout)
+    check()
+  })
+
+  return {
+    promise,
+    cancel: () => settle(null)
+  }
+}
+
+/**
+ * Resolve a step target to an element. Selectors and element references resolve
+ * synchronously, resolver functions may return a promise.
+ */
+export function resolveTarget(target: StepTarget): HTMLElement | null | Promise<HTMLElement | null> {
+  if (typeof target === 'string') {
+    return querySelectorDeep(target)
+  }
+
+  if (typeof target === 'function') {
+    try {
+      const result = target()
+      if (result instanceof Promise) {
+        return result.then((element) => element ?? null, () => null)
+      }
+      return result ?? null
+    } catch {
+      return null
+    }
+  }
+
+  // Detached element references count as missing
+  return target.isConnected ? target : null
+}
+
+/**
+ * Resolve several targets, skipping missing ones. Returns a promise only when
+ * one of the targets resolves asynchronously.
+ */
+export function resolveTargets(targets: StepTarget[]): HTMLElement[] | Promise<HTMLElement[]> {
+  const results = targets.map(resolveTarget)
+  const found = (elements: (HTMLElement | null)[]) => elements.filter((el): el is HTMLElement => el !== null)
+
+  if (results.some((result) => result instanceof Promise)) {
+    return Promise.all(results).then(found)
+  }
+  return found(results as (HTMLElement | null)[])
+}
+
+/**
+ * Check whether an event happened on a target or inside it. The target is
+ * resolved when the event fires, so re-rendered elements still match, and
+ * plain selectors match any element they select.
+ */
+export function isEventFromTarget(event: Event, target: StepTarget): boolean | Promise<boolean> {
+  // The path is only available while the event is dispatched
+  const path = event.composedPath()
+
+  if (typeof target === 'string' && !target.includes(PIERCE_SEPARATOR)) {
+    return path.some((node) => typeof (node as Element).matches === 'function' && (node as Element).matches(target))
+  }
+
+  const resolved = resolveTarget(target)
+  if (resolved instanceof Promise) {
+    return resolved.then((element) => element !== null && path.includes(element))
+  }
+  return resolved !== null && path.includes(resolved)
+}
+
+/**
+ * Describe a step target for warnings
+ */
+export function describeTarget(target: StepTarget): string {
+  if (typeof target === 'string') {
+    return target
+  }
+
+  if (typeof target === 'function') {
+    return target.name ? `resolver ${target.name}()` : 'resolver function'
+  }
+
+  return target.id ? `${target.tagName.toLowerCase()}#${target.id}` : target.tagName.toLowerCase()
+}
+
+/**
+ * Separator that pierces into shadow roots and same-origin iframes,
+ * e.g. `my-editor >>> iframe.preview >>> button.save`
+ */
+const PIERCE_SEPARATOR = '>>>'
+
+/**
+ * Query a selector that may pierce shadow roots and same-origin iframes.
+ * Each segment before the last must match a shadow host or an iframe.
+ */
+export function querySelectorDeep(selector: string, root: Document | ShadowRoot = document): HTMLElement | null {
+  const segments = selector.split(PIERCE_SEPARATOR).map((segment) => segment.trim())
+  let scope: Document | ShadowRoot = root
+
+  for (let i = 0; i < segments.length; i++) {
+    const element = scope.querySelector(segments[i]) as HTMLElement | null
+    if (!element || i === segments.length - 1) {
+      return element
+    }
+
+    const next = getInnerRoot(element)
+    if (!next) {
+      return null
+    }
+    scope = next
+  }
+
+  return null
+}
+
+/**
+ * Get the shadow root or the same-origin iframe document of an element
+ */
+function getInnerRoot(element: HTMLElement): Document | ShadowRoot | null {
+  if (element.shadowRoot) {
+    return element.shadowRoot
+  }
+
+  if (element.tagName === 'IFRAME') {
+    try {
+      // Throws or returns null for cross-origin frames
+      return (element as HTMLIFrameElement).contentDocument
+    } catch {
+      return null
+    }
+  }
+
+  return null
+}
+
+/**
+ * Get the frame elements an element is nested in, innermost first
+ */
+export function getFrameChain(element: Element): HTMLElement[] {
+  const frames: HTMLElement[] = []
+  let view = element.ownerDocument.defaultView
+
+  while (view && view !== window) {
+    const frame = view.frameElement as HTMLElement | null
+    if (!frame) break
+
+    frames.push(frame)
+    view = frame.ownerDocument.defaultView
+  }
+
+  return frames
+}
+
+/**
+ * Get an element's bounding rect in top-level viewport coordinates,
+ * adding the offsets of any iframes it is nested in
+ */
+export function getViewportRect(element: Element): ViewportRect {
+  const rect = element.getBoundingClientRect()
+  let left = rect.left
+  let top = rect.top
+
+  for (const frame of getFrameChain(element)) {
+    const frameRect = frame.getBoundingClientRect()
+    left += frameRect.left + frame.clientLeft
+    top += frameRect.top + frame.clientTop
+  }
+
+  return {
+    left,
+    top,
+    right: left + rect.width,
+    bottom: top + rect.height,
+    width: rect.width,
+    height: rect.height
+  }
+}
@@ -0,0 +1,113 @@
+import type { ThemeOptions, ThemePreset, ThemeTokens } from './types'
+
+const LIGHT_THEME: ThemeTokens = {
+  fontFamily: 'inherit',
+  fontSize: '13px',
+  titleFontSize: '16px',
+  tooltipBackground: '#ffffff',
+  tooltipBorder: '1px solid rgba(0, 0, 0, 0.1)',
+  tooltipRadius: '12px',
+  tooltipShadow: '0 20px 40px rgba(0, 0, 0, 0.2)',
+  tooltipPadding: '16px',
+  titleColor: '#1a1a1a',
+  textColor: '#495057',
+  mutedColor: '#6c757d',
+  surfaceColor: '#f8f9fa',
+  surfaceHoverColor: '#e9ecef',
+  borderColor: '#dee2e6',
+  borderHoverColor: '#adb5bd',
+  primaryColor: '#007acc',
+  primaryHoverColor: '#0056b3',
+  primaryTextColor: '#ffffff',
+  dangerColor: '#dc3545',
+  dangerHoverColor: '#c82333',
+  dangerTextColor: '#ffffff',
+  successColor: '#28a745',
+  choiceColor: '#007acc',
+  buttonRadius: '4px',
+  highlightColor: '#007acc',
+  highlightGlow: 'rgba(0, 122, 204, 0.3)',
+  highlightRadius: '12px',
+  arrowSize: '8px',
+  loaderColor: '#ffffff',
+  backdropColor: '#000000',
+  backdropOpacity: '50%'
+}
+
+const DARK_THEME: ThemeTokens = {
+  ...LIGHT_THEME,
+  tooltipBackground: '#2d2d2d',
+  tooltipBorder: '1px solid rgba(255, 255, 255, 0.1)',
+  titleColor: '#ffffff',
+  textColor: '#cccccc',
+  mutedColor: '#999999',
+  surfaceColor: '#404040',
+  surfaceHoverColor: '#4a4a4a',
+  borderColor: '#555555',
+  borderHoverColor: '#666666',
+  choiceColor: '#7fc4f5'
+}
+
+const HIGH_CONTRAST_THEME: ThemeTokens = {
+  ...LIGHT_THEME,
+  tooltipBorder: '2px solid #000000',
+  titleColor: '#000000',
+  textColor: '#000000',
+  mutedColor: '#1a1a1a',
+  surfaceColor: '#ffffff',
+  surfaceHoverColor: '#e6e6e6',
+  borderColor: '#000000',
+  borderHoverColor: '#000000',
+  primaryColor: '#0040a0',
+  primaryHoverColor: '#002b6b',
+  dangerColor: '#b00020',
+  dangerHoverColor: '#7f0017',
+  successColor: '#006400',
+  choiceColor: '#0040a0',
+  highlightColor: '#ffffff',
+  highlightGlow: 'rgba(255, 255, 255, 0.8)',
+  backdropOpacity: '90%'
+}
+
+/**
+ * Tokens of the built-in themes
+ */
+export const THEME_PRESETS: Record<ThemePreset, ThemeTokens> = {
+  light: LIGHT_THEME,
+  dark: DARK_THEME,
+  'high-contrast': HIGH_CONTRAST_THEME
+}
+
+/**
+ * Name of the CSS variable for a token, e.g. `--guida-primary-color`
+ */
+export function getThemeVariable(token: keyof ThemeTokens): string {
+  return `--guida-${token.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)}`
+}
+
+/**
+ * CSS variable declarations for a set of tokens, for the default stylesheet
+ */
+export function themeToCss(tokens: ThemeTokens): string {
+  return (Object.keys(tokens) as (keyof ThemeTokens)[])
+    .map((token) => `${getThemeVariable(token)}: ${tokens[token]};`)
+    .join('\n  ')
+}
+
+/**
+ * CSS variables an instance sets on its elements: every token of a forced
+ * preset, so it wins over the page's color scheme, plus the overridden tokens
+ */
+export function resolveThemeVariables(theme: ThemeOptions): Record<string, string> {
+  const { preset = 'auto', ...overrides } = theme
+  const tokens: Partial<ThemeTokens> = preset === 'auto' ? overrides : { ...THEME_PRESETS[preset], ...overrides }
+
+  const variables: Record<string, string> = {}
+  for (const token of Object.keys(tokens) as (keyof ThemeTokens)[]) {
+    const value = tokens[token]
+    if (value !== undefined) {
+      variables[getThemeVariable(token)] = value
+    }
+  }
+  return variables
+}
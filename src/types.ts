@@ -1,27 +1,320 @@
+import type { Guida } from './onboarding'
+import type { PendingTargetWait } from './targets'
+
+/**
+ * Side of the target element the tooltip appears on
+ */
+export type TooltipSide = 'top' | 'bottom' | 'left' | 'right'
+
+/**
+ * Position where the tooltip should appear relative to the target element.
+ * `-start` and `-end` variants align the tooltip with the start or end of the target instead of its center.
+ * The tooltip flips to another side when there is no room, 'auto' picks the side with the most room.
+ */
+export type TooltipPosition = TooltipSide | `${TooltipSide}-start` | `${TooltipSide}-end` | 'auto'
+
+/**
+ * Pixel offset applied to the tooltip position
+ */
+export interface TooltipOffset {
+  /** Extra distance away from the target (in pixels) */
+  mainAxis?: number
+  /** Shift along the target edge (in pixels), positive moves right or down */
+  crossAxis?: number
+}
+
 /**
- * Position where the tooltip should appear relative to the target element
+ * How the target is scrolled into view before the step is placed
  */
-export type TooltipPosition = 'top' | 'bottom' | 'left' | 'right'
+export interface ScrollOptions {
+  /** Space kept clear at the top of the scroll container, e.g. for a sticky header (in pixels) */
+  offsetTop?: number
+  /** Space kept clear at the bottom of the scroll container (in pixels) */
+  offsetBottom?: number
+  /** Element or CSS selector of the container that scrolls, defaults to the nearest scrollable ancestor */
+  container?: HTMLElement | Window | string
+  /** Smooth or instant scrolling */
+  behavior?: 'smooth' | 'instant'
+}
 
 /**
  * Action type that determines how the user should interact with the step
  */
-export type StepAction = 'click' | 'observe'
+export type StepAction = 'click' | 'observe' | 'input' | 'hover' | 'change' | 'event' | 'waitFor'
+
+/**
+ * Options for the interactive step actions
+ */
+export interface StepActionOptions {
+  /**
+   * For 'input' and 'change' actions, whether the field's value completes the step.
+   * Defaults to any non-empty value for 'input' and any value for 'change'.
+   */
+  validate?: (value: string, element: HTMLElement) => boolean
+  /** For 'event' actions, name of the DOM or custom event that completes the step */
+  event?: string
+  /** For 'waitFor' actions, predicate checked whenever the DOM changes */
+  waitFor?: () => boolean
+  /** Hint telling the user what to do, or false to hide the default hint */
+  hint?: string | false
+}
+
+/**
+ * Which parts of the page can be used while a step is shown:
+ * only the spotlighted area, nothing but the tooltip, or everything
+ */
+export type InteractionMode = 'spotlight-only' | 'none' | 'all'
+
+/**
+ * What happens when the user clicks outside the spotlight and the tooltip
+ */
+export type BackdropClickAction = 'none' | 'next' | 'close'
+
+/**
+ * Keys bound to tour navigation, matched against `KeyboardEvent.key`
+ */
+export interface KeyboardBindings {
+  /** Keys that go to the next step (default: ['ArrowRight', 'Enter']) */
+  next?: string[]
+  /** Keys that go to the previous step (default: ['ArrowLeft']) */
+  previous?: string[]
+  /** Keys that close the tour (default: ['Escape']) */
+  close?: string[]
+}
+
+/**
+ * Step lifecycle hook, may return a promise to make the tour wait for it
+ */
+export type StepHook = (step: OnboardingStep, stepIndex: number) => void | Promise<void>
+
+/**
+ * Names of the step lifecycle hooks
+ */
+export type StepHookName = 'beforeShow' | 'afterShow' | 'beforeLeave'
+
+/**
+ * How the tour is about to move
+ */
+export type StepChangeDirection = 'next' | 'previous' | 'goto' | 'close'
+
+/**
+ * Result of a navigation guard: false cancels the move, a step index redirects
+ * to that step, anything else lets the move happen
+ */
+export type NavigationGuardResult = boolean | number | void
+
+/**
+ * Guard registered with `on('beforeStepChange', guard)`, may return a promise
+ */
+export type NavigationGuard = (
+  change: OnboardingEvents['beforeStepChange']
+) => NavigationGuardResult | Promise<NavigationGuardResult>
+
+/**
+ * How the tour arrived at a step
+ */
+export type TourDirection = 'start' | 'next' | 'previous' | 'goto'
+
+/**
+ * Context passed to `when` predicates
+ */
+export interface TourContext {
+  /** Index of the step being checked */
+  stepIndex: number
+  /** The step being checked */
+  step: OnboardingStep
+  /** How the tour is moving to the step */
+  direction: TourDirection
+  /** Shared tour data from the `data` option, which predicates and hooks can read and change */
+  data: Record<string, unknown>
+}
+
+/**
+ * Button offered by a branching step that jumps to another step
+ */
+export interface StepChoice {
+  /** Button label */
+  label: string
+  /** Id of the step the choice leads to */
+  next: string
+}
+
+/**
+ * Step title or description: text, or a DOM node built by the app, which is inserted as it is
+ */
+export type StepContent = string | Node
+
+/**
+ * How step titles and descriptions given as strings are rendered: as plain text,
+ * or as markup passed through the built-in allow-list sanitizer
+ */
+export type ContentMode = 'text' | 'html'
+
+/**
+ * Image, video or embed shown at the top of a step's tooltip
+ */
+export interface StepMedia {
+  /** Kind of media, embeds are only shown from the `mediaOrigins` of the config */
+  type: 'image' | 'video' | 'iframe'
+  /** URL of the media */
+  src: string
+  /** Alternative text for images, accessible label for videos and embeds (embeds default to 'Embedded media') */
+  alt?: string
+  /** Width to height ratio, e.g. `16 / 9` or `'4 / 3'`, reserves the space before the media loads */
+  aspectRatio?: number | string
+  /** For videos, start playing muted when shown unless the user prefers reduced motion (default: true) */
+  autoplay?: boolean
+  /** For videos, play in a loop like a GIF (default: true) */
+  loop?: boolean
+  /** For videos, show the player controls (default: only when not autoplaying) */
+  controls?: boolean
+  /** For videos, image shown until the video plays */
+  poster?: string
+}
+
+/**
+ * Look of a custom tooltip button
+ */
+export type StepButtonVariant = 'primary' | 'secondary' | 'text'
+
+/**
+ * Custom button shown in the tooltip of a step
+ */
+export interface StepButton {
+  /** Button label */
+  label: string
+  /** Look of the button (default: 'secondary') */
+  variant?: StepButtonVariant
+  /** Called when the button is clicked, e.g. to navigate, close the tour or call the app */
+  onClick: (guida: Guida, step: OnboardingStep, stepIndex: number) => void
+}
+
+/**
+ * Labels for the built-in tooltip buttons of a step, false hides a button
+ */
+export interface StepControls {
+  previous?: string | false
+  next?: string | false
+  skip?: string | false
+  close?: string | false
+}
+
+/**
+ * Navigation actions available to custom tooltip content
+ */
+export interface TooltipActions {
+  next: () => void
+  previous: () => void
+  close: () => void
+  goToStep: (step: number | string) => void
+}
+
+/**
+ * What a tooltip renderer or slot gets to render a step
+ */
+export interface TooltipRenderContext {
+  step: OnboardingStep
+  stepIndex: number
+  /** Position of the step among the steps shown, starting at 1 */
+  current: number
+  /** Number of steps shown, leaving out skipped ones */
+  total: number
+  isFirstStep: boolean
+  isLastStep: boolean
+  actions: TooltipActions
+}
+
+/**
+ * Renders tooltip content as an element or markup. Markup is inserted as is,
+ * without sanitizing, so it must not contain untrusted text.
+ */
+export type TooltipRenderer = (context: TooltipRenderContext) => HTMLElement | string
+
+/**
+ * Renderers that replace parts of the default tooltip layout
+ */
+export interface TooltipSlots {
+  /** Replaces the title */
+  header?: TooltipRenderer
+  /** Replaces the "2 of 5" progress indicator */
+  progress?: TooltipRenderer
+  /** Replaces the description */
+  body?: TooltipRenderer
+  /** Replaces the button row */
+  footer?: TooltipRenderer
+}
+
+/**
+ * Function that finds the target element for a step, optionally asynchronously
+ */
+export type StepTargetResolver = () => HTMLElement | null | undefined | Promise<HTMLElement | null | undefined>
+
+/**
+ * Target of a step: a CSS selector, an element reference or a resolver function
+ */
+export type StepTarget = string | HTMLElement | StepTargetResolver
+
+/**
+ * What to do when a step's target cannot be found before the wait times out.
+ * A callback receives the step and its index and is responsible for moving the tour on.
+ */
+export type TargetFallback =
+  | 'skip'
+  | 'center'
+  | 'abort'
+  | ((step: OnboardingStep, stepIndex: number) => void)
+
+/**
+ * Options for waiting on a target element that is rendered after the step starts
+ */
+export interface TargetWaitOptions {
+  /** Maximum time to wait for the target (in milliseconds, 0 checks only once) */
+  timeout?: number
+  /** Watch the DOM for mutations or poll on an interval */
+  strategy?: 'observer' | 'polling'
+  /** Polling interval when using the polling strategy (in milliseconds) */
+  interval?: number
+  /** What to do when the target is still missing after the timeout */
+  fallback?: TargetFallback
+}
 
 /**
  * Configuration for a single onboarding step
  */
 export interface OnboardingStep {
-  /** CSS selector for the target element */
-  target: string
+  /** Unique id used to refer to the step from `next`, `previous`, choices and `goToStep` */
+  id?: string
+  /**
+   * Target element: CSS selector, element reference or resolver function, resolved each time the step is shown.
+   * Selectors can pierce shadow roots and same-origin iframes with `>>>`, e.g. `my-editor >>> button.save`.
+   * Leave out for a modal step, shown as a centered dialog over the full backdrop
+   */
+  target?: StepTarget
   /** Title shown in the tooltip */
-  title: string
-  /** Description text shown in the tooltip */
-  description: string
+  title: StepContent
+  /** Description shown in the tooltip */
+  description: StepContent
+  /** How the title and description are rendered when they are strings, overriding the global mode */
+  contentMode?: ContentMode
+  /** Image, video or embed shown above the title */
+  media?: StepMedia
   /** Position of the tooltip relative to the target */
   position: TooltipPosition
+  /** Pixel offset applied to the tooltip position */
+  offset?: TooltipOffset
   /** How the user should interact with this step */
   action: StepAction
+  /** Options for the interactive actions */
+  actionOptions?: StepActionOptions
+  /**
+   * Element the action must happen on, when it differs from the spotlighted target.
+   * Resolved like `target` each time an event fires.
+   */
+  actionTarget?: StepTarget
+  /** Which parts of the page can be used during this step, overriding the global mode */
+  interaction?: InteractionMode
+  /** Reaction to clicks outside the spotlight during this step, overriding the global one */
+  backdropClick?: BackdropClickAction
   /** Whether to highlight the target element */
   highlight: boolean
   /** Whether this step can be skipped */
@@ -32,7 +325,139 @@ export interface OnboardingStep {
     borderRadius?: number
     /** Extra padding around the highlighted element (in pixels) */
     padding?: number
+    /** Cut out one bounding box around all targets instead of one cutout per target */
+    merge?: boolean
   }
+  /** Scroll options for this step, overriding the global ones, or false to not scroll */
+  scroll?: ScrollOptions | false
+  /** Extra elements spotlighted together with the target, the tooltip stays anchored to `target` */
+  additionalTargets?: StepTarget[]
+  /** Wait options for this step's target, overriding the global ones */
+  waitForTarget?: TargetWaitOptions
+  /**
+   * Checked right before the step would be shown, the step is skipped when it returns false.
+   * Skipped steps are left out of the progress counter.
+   */
+  when?: (context: TourContext) => boolean | Promise<boolean>
+  /** Id of the step that follows this one, instead of the next step in the array */
+  next?: string
+  /**
+   * Id of the step to go back to when the user did not arrive here through the tour,
+   * e.g. after `goToStep`. Going back otherwise follows the path the user took.
+   */
+  previous?: string
+  /** Buttons that let the user pick which step comes next, shown instead of the Next button */
+  choices?: StepChoice[]
+  /** Extra buttons shown next to the built-in ones */
+  buttons?: StepButton[]
+  /** Relabel or hide the built-in Previous, Next, Skip and Close buttons */
+  controls?: StepControls
+  /** Renders the whole tooltip content for this step, overriding the global renderer */
+  renderTooltip?: TooltipRenderer
+  /** Slots for this step, merged over the global ones */
+  slots?: TooltipSlots
+  /** Called before the step is shown, e.g. to open a menu or load data the step needs */
+  beforeShow?: StepHook
+  /** Called once the step is shown */
+  afterShow?: StepHook
+  /** Called before the tour moves away from the step or closes, e.g. to undo `beforeShow` */
+  beforeLeave?: StepHook
+}
+
+/**
+ * Visual tokens of the tour, each set as a `--guida-*` CSS variable,
+ * e.g. `primaryHoverColor` as `--guida-primary-hover-color`
+ */
+export interface ThemeTokens {
+  fontFamily: string
+  /** Font size of the description and buttons */
+  fontSize: string
+  titleFontSize: string
+  tooltipBackground: string
+  /** Border shorthand, e.g. '1px solid #dee2e6' */
+  tooltipBorder: string
+  tooltipRadius: string
+  tooltipShadow: string
+  tooltipPadding: string
+  titleColor: string
+  textColor: string
+  /** Hints, progress and text buttons */
+  mutedColor: string
+  /** Background of the progress indicator, secondary buttons and choices */
+  surfaceColor: string
+  surfaceHoverColor: string
+  borderColor: string
+  borderHoverColor: string
+  /** Next and primary buttons */
+  primaryColor: string
+  primaryHoverColor: string
+  primaryTextColor: string
+  /** Close button */
+  dangerColor: string
+  dangerHoverColor: string
+  dangerTextColor: string
+  /** Completion title */
+  successColor: string
+  /** Text of choice buttons */
+  choiceColor: string
+  buttonRadius: string
+  /** Outline around highlighted elements */
+  highlightColor: string
+  highlightGlow: string
+  highlightRadius: string
+  arrowSize: string
+  /** Spinner shown while hooks run */
+  loaderColor: string
+  /** Backdrop around the spotlight */
+  backdropColor: string
+  /** Darkness of the backdrop as a percentage, e.g. '50%', `spotlight.backdropOpacity` overrides it */
+  backdropOpacity: string
+}
+
+/**
+ * Built-in themes
+ */
+export type ThemePreset = 'light' | 'dark' | 'high-contrast'
+
+/**
+ * Theme of a tour instance: a preset plus tokens overriding it
+ */
+export interface ThemeOptions extends Partial<ThemeTokens> {
+  /**
+   * Preset the tokens are based on. 'auto' follows `prefers-color-scheme` and
+   * `prefers-contrast`, any other preset forces that scheme (default: 'auto')
+   */
+  preset?: ThemePreset | 'auto'
+}
+
+/**
+ * Button shown on the completion screen
+ */
+export interface CompletionButton {
+  /** Button label */
+  label: string
+  /** Look of the button (default: 'primary') */
+  variant?: StepButtonVariant
+  /** Called when the button is clicked, e.g. to start the next tour */
+  onClick: (guida: Guida) => void
+}
+
+/**
+ * Screen shown when the tour is completed
+ */
+export interface CompletionOptions {
+  /** Title (default: "You're All Set!") */
+  title?: StepContent
+  /** Text below the title */
+  body?: StepContent
+  /** Icon above the title (default: '🎉'), an empty string hides it */
+  icon?: StepContent
+  /** Renders the whole screen instead of the default layout, `guida.close()` dismisses it. Markup is inserted without sanitizing. */
+  render?: (guida: Guida) => HTMLElement | string
+  /** Buttons below the text */
+  buttons?: CompletionButton[]
+  /** Time before the screen is dismissed (in milliseconds, default: 3000), or false to keep it until it is closed */
+  duration?: number | false
 }
 
 /**
@@ -53,9 +478,33 @@ export interface OnboardingConfig {
     borderRadius?: number
     /** Default padding around highlighted elements (in pixels) */
     padding?: number
-    /** Default backdrop opacity as a percentage (0-100) */
+    /** Backdrop opacity as a percentage (0-100), overrides the theme's `backdropOpacity` (default: 50, 90 with high contrast) */
     backdropOpacity?: number
   }
+  /** Default scroll options, or false to never scroll targets into view */
+  scroll?: ScrollOptions | false
+  /** Default wait options for targets that are rendered late */
+  waitForTarget?: TargetWaitOptions
+  /** Shared data passed to `when` predicates through the tour context */
+  data?: Record<string, unknown>
+  /** Which parts of the page can be used during the tour (default: 'all') */
+  interaction?: InteractionMode
+  /** Reaction to clicks outside the spotlight and the tooltip (default: 'none') */
+  backdropClick?: BackdropClickAction
+  /** Key bindings for navigating the tour, or false to turn keyboard navigation off */
+  keyboard?: KeyboardBindings | false
+  /** How step titles and descriptions are rendered when they are strings (default: 'text') */
+  contentMode?: ContentMode
+  /** Origins that step media embeds may be loaded from, e.g. 'https://www.youtube-nocookie.com' */
+  mediaOrigins?: string[]
+  /** Renders the whole tooltip content instead of the default layout, Guida still adds the arrow and positions it */
+  renderTooltip?: TooltipRenderer
+  /** Renderers that replace parts of the default tooltip layout */
+  slots?: TooltipSlots
+  /** Theme preset and `--guida-*` token overrides for this instance */
+  theme?: ThemeOptions
+  /** Completion screen options, or false to end the tour at once */
+  completion?: CompletionOptions | false
   /** Custom CSS classes to apply */
   customClasses?: {
     overlay?: string
@@ -80,13 +529,29 @@ export interface OnboardingEvents {
   complete: void
   close: void
   stepChange: { stepIndex: number; step: OnboardingStep }
-  beforeStepChange: { currentStepIndex: number; nextStepIndex: number }
+  beforeStepChange: {
+    currentStepIndex: number
+    /** Step about to be shown, equal to the number of steps when completing, or null when closing */
+    nextStepIndex: number | null
+    direction: StepChangeDirection
+  }
   stepNavigation: {
     direction: 'next' | 'previous'
     fromStep: number
     toStep: number
     fromStepConfig: OnboardingStep
   }
+  targetNotFound: {
+    stepIndex: number
+    step: OnboardingStep
+    fallback: 'skip' | 'center' | 'abort' | 'callback'
+  }
+  error: {
+    error: unknown
+    stepIndex: number
+    step: OnboardingStep | null
+    hook: StepHookName | 'beforeStepChange' | 'when' | 'targetNotFound' | 'fallback' | 'render'
+  }
 }
 
 /**
@@ -100,6 +565,26 @@ export interface OnboardingState {
   tooltip: HTMLElement | null
   currentHighlightedElement: HTMLElement | null
   currentStepConfig: OnboardingStep | null
+  currentTarget: HTMLElement | null
+  additionalTargets: HTMLElement[]
+  interactionCleanup: (() => void) | null
+  frameScrollCleanup: (() => void) | null
+  isScrolling: boolean
+  layoutFrame: number | null
+  resizeObserver: ResizeObserver | null
   resizeHandler: (() => void) | null
   scrollHandler: (() => void) | null
+  pointerHandler: ((event: Event) => void) | null
+  keydownHandler: ((event: KeyboardEvent) => void) | null
+  focusTrapCleanup: (() => void) | null
+  liveRegion: HTMLElement | null
+  returnFocus: HTMLElement | null
+  pendingHook: Promise<unknown> | null
+  direction: TourDirection
+  skippedSteps: Set<number>
+  history: number[]
+  showingCompletion: boolean
+  completionTimer: ReturnType<typeof setTimeout> | null
+  transitionTimer: ReturnType<typeof setTimeout> | null
+  targetWait: PendingTargetWait | null
 }
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createMedia, isAllowedOrigin } from '../src/media'
+
+describe('Media', () => {
+  describe('createMedia', () => {
+    it('should create an image with alt text and a reserved aspect ratio', () => {
+      const container = createMedia({ type: 'image', src: '/demo.png', alt: 'Dashboard', aspectRatio: '16 / 9' }, [], () => { })!
+      const image = container.querySelector('img')!
+
+      expect(container.classList.contains('guida-media')).toBe(true)
+      expect(container.style.aspectRatio).toBe('16 / 9')
+      expect(image.getAttribute('src')).toBe('/demo.png')
+      expect(image.alt).toBe('Dashboard')
+    })
+
+    it('should create muted looping videos that autoplay', () => {
+      const container = createMedia({ type: 'video', src: '/demo.mp4', alt: 'Creating a report' }, [], () => { })!
+      const video = container.querySelector('video')!
+
+      expect(video.muted).toBe(true)
+      expect(video.loop).toBe(true)
+      expect(video.autoplay).toBe(true)
+      expect(video.controls).toBe(false)
+      expect(video.getAttribute('aria-label')).toBe('Creating a report')
+    })
+
+    it('should only embed iframes from allowed origins', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => { })
+      const allowed = ['https://player.example.com']
+
+      expect(createMedia({ type: 'iframe', src: 'https://player.example.com/embed/1', alt: 'Demo' }, allowed, () => { })?.querySelector('iframe')?.title).toBe('Demo')
+      expect(createMedia({ type: 'iframe', src: 'https://evil.example.com/embed/1' }, allowed, () => { })).toBeNull()
+      expect(warn).toHaveBeenCalledWith('Spotlight Onboarding: Media origin not allowed: https://evil.example.com/embed/1')
+      warn.mockRestore()
+    })
+
+    it('should sandbox embeds and give them a title', () => {
+      const frame = createMedia({ type: 'iframe', src: 'https://player.example.com/embed/1' }, ['https://player.example.com'], () => { })!.querySelector('iframe')!
+
+      expect(frame.getAttribute('sandbox')).toBe('allow-scripts allow-same-origin allow-presentation')
+      expect(frame.title).toBe('Embedded media')
+    })
+
+    it('should call back once the media has loaded', () => {
+      const onLoad = vi.fn()
+      const container = createMedia({ type: 'image', src: '/demo.png' }, [], onLoad)!
+
+      container.querySelector('img')!.dispatchEvent(new Event('load'))
+      expect(onLoad).toHaveBeenCalledTimes(1)
+    })
+
+    it('should remove media that fails to load', () => {
+      const onLoad = vi.fn()
+      const container = createMedia({ type: 'image', src: '/missing.png' }, [], onLoad)!
+      document.body.appendChild(container)
+
+      container.querySelector('img')!.dispatchEvent(new Event('error'))
+      expect(container.isConnected).toBe(false)
+      expect(onLoad).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('isAllowedOrigin', () => {
+    it('should compare origins only', () => {
+      expect(isAllowedOrigin('https://a.example.com/x?y=1', ['https://a.example.com/'])).toBe(true)
+      expect(isAllowedOrigin('http://a.example.com/x', ['https://a.example.com'])).toBe(false)
+      expect(isAllowedOrigin('javascript:alert(1)', ['https://a.example.com'])).toBe(false)
+    })
+  })
+})
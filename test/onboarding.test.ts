@@ -1,4 +1,4 @@
-import { describe, it, expect, vi } from 'vitest'
+import { describe, it, expect, vi, afterEach } from 'vitest'
 import { Guida } from '../src/onboarding'
 import type { OnboardingStep } from '../src/types'
 
@@ -534,3 +534,2280 @@ describe('DOM Manipulation', () => {
     expect(tooltip?.classList.contains('custom-tooltip')).toBe(true)
   })
 })
+
+describe('Target Waiting', () => {
+  const lateStep: OnboardingStep = {
+    target: '#late',
+    title: 'Late',
+    description: 'Rendered later',
+    position: 'bottom',
+    action: 'observe',
+    highlight: true,
+    skipable: false
+  }
+
+  it('should wait for a target that renders after the step starts', async () => {
+    const onboarding = new Guida({
+      steps: [{ ...lateStep, waitForTarget: { timeout: 500 } }],
+      autoStart: false
+    })
+
+    const stepChangeHandler = vi.fn()
+    onboarding.on('stepChange', stepChangeHandler)
+
+    onboarding.start()
+    expect(stepChangeHandler).not.toHaveBeenCalled()
+
+    createMockElement('late')
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    expect(stepChangeHandler).toHaveBeenCalledWith({ stepIndex: 0, step: expect.objectContaining({ target: '#late' }) })
+    expect(document.querySelector('#late')?.classList.contains('guida-highlight')).toBe(true)
+  })
+
+  it('should support the polling strategy', async () => {
+    const onboarding = new Guida({
+      steps: [lateStep],
+      autoStart: false,
+      waitForTarget: { timeout: 500, strategy: 'polling', interval: 20 }
+    })
+
+    const stepChangeHandler = vi.fn()
+    onboarding.on('stepChange', stepChangeHandler)
+
+    onboarding.start()
+    createMockElement('late')
+    await new Promise(resolve => setTimeout(resolve, 60))
+
+    expect(stepChangeHandler).toHaveBeenCalled()
+  })
+
+  it('should emit targetNotFound and skip by default after the timeout', async () => {
+    createMockElement('step2')
+
+    const onboarding = new Guida({
+      steps: [{ ...lateStep, waitForTarget: { timeout: 30 } }, mockSteps[1]],
+      autoStart: false
+    })
+
+    const notFoundHandler = vi.fn()
+    onboarding.on('targetNotFound', notFoundHandler)
+
+    onboarding.start()
+    await new Promise(resolve => setTimeout(resolve, 400))
+
+    expect(notFoundHandler).toHaveBeenCalledWith(expect.objectContaining({ stepIndex: 0, fallback: 'skip' }))
+    expect(onboarding.getCurrentStep().index).toBe(1)
+  })
+
+  it('should skip a missing target in the direction the tour is moving', async () => {
+    createMockElement('step1')
+    createMockElement('step2')
+
+    const onboarding = new Guida({
+      steps: [mockSteps[0], lateStep, { ...mockSteps[1], action: 'observe' }],
+      autoStart: false
+    })
+
+    onboarding.start()
+    onboarding.nextStep()
+    await new Promise(resolve => setTimeout(resolve, 350))
+    expect(onboarding.getCurrentStep().index).toBe(2)
+
+    onboarding.previousStep()
+    await new Promise(resolve => setTimeout(resolve, 350))
+    expect(onboarding.getCurrentStep().index).toBe(0)
+
+    onboarding.goToStep(2)
+    await new Promise(resolve => setTimeout(resolve, 350))
+    onboarding.previousStep()
+    await new Promise(resolve => setTimeout(resolve, 350))
+    expect(onboarding.getCurrentStep().index).toBe(0)
+  })
+
+  it('should show the step centered with the center fallback', async () => {
+    const onboarding = new Guida({
+      steps: [{ ...lateStep, waitForTarget: { timeout: 20, fallback: 'center' } }],
+      autoStart: false
+    })
+
+    onboarding.start()
+    await new Promise(resolve => setTimeout(resolve, 50))
+
+    const tooltip = document.querySelector('.guida-tooltip')
+    expect(tooltip?.classList.contains('guida-centered')).toBe(true)
+    expect(tooltip?.querySelector('.guida-arrow')).toBeFalsy()
+    expect(onboarding.getCurrentStep().index).toBe(0)
+  })
+
+  it('should end the tour without completing it with the abort fallback', async () => {
+    const onboarding = new Guida({
+      steps: [{ ...lateStep, waitForTarget: { fallback: 'abort' } }],
+      autoStart: false
+    })
+
+    const closeHandler = vi.fn()
+    onboarding.on('close', closeHandler)
+
+    onboarding.start()
+
+    expect(closeHandler).toHaveBeenCalled()
+    expect(onboarding.isActive()).toBe(false)
+    expect(localStorage.setItem).not.toHaveBeenCalled()
+  })
+
+  it('should call a fallback callback with the step and index', () => {
+    const fallback = vi.fn()
+    const onboarding = new Guida({
+      steps: [{ ...lateStep, waitForTarget: { fallback } }],
+      autoStart: false
+    })
+
+    const notFoundHandler = vi.fn()
+    onboarding.on('targetNotFound', notFoundHandler)
+
+    onboarding.start()
+
+    expect(fallback).toHaveBeenCalledWith(expect.objectContaining({ target: '#late' }), 0)
+    expect(notFoundHandler).toHaveBeenCalledWith(expect.objectContaining({ fallback: 'callback' }))
+    expect(onboarding.isActive()).toBe(true)
+  })
+
+  it('should report failing targetNotFound listeners and fallback callbacks', async () => {
+    const onError = vi.fn()
+    const onboarding = new Guida({
+      steps: [{
+        ...lateStep,
+        waitForTarget: {
+          timeout: 20,
+          fallback: () => {
+            throw new Error('Fallback failed')
+          }
+        }
+      }],
+      autoStart: false
+    })
+    onboarding.on('error', onError)
+    onboarding.on('targetNotFound', () => {
+      throw new Error('Listener failed')
+    })
+
+    onboarding.start()
+    await new Promise(resolve => setTimeout(resolve, 50))
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ hook: 'targetNotFound', stepIndex: 0 }))
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ hook: 'fallback', stepIndex: 0 }))
+  })
+
+  it('should report errors while showing a step whose resolver settles later', async () => {
+    const element = createMockElement('resolved')
+    const onError = vi.fn()
+    const onboarding = new Guida({
+      steps: [{ ...lateStep, target: () => Promise.resolve(element) }],
+      autoStart: false
+    })
+    onboarding.on('error', onError)
+    onboarding.on('stepChange', () => {
+      throw new Error('Listener failed')
+    })
+
+    onboarding.start()
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ hook: 'render', stepIndex: 0 }))
+  })
+
+  it('should stop waiting when the tour is closed', async () => {
+    const onboarding = new Guida({
+      steps: [{ ...lateStep, waitForTarget: { timeout: 500 } }],
+      autoStart: false
+    })
+
+    const stepChangeHandler = vi.fn()
+    onboarding.on('stepChange', stepChangeHandler)
+
+    onboarding.start()
+    onboarding.close()
+
+    createMockElement('late')
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    expect(stepChangeHandler).not.toHaveBeenCalled()
+  })
+})
+
+describe('Target Resolution', () => {
+  const baseStep: Omit<OnboardingStep, 'target'> = {
+    title: 'Resolved',
+    description: 'Resolved target',
+    position: 'bottom',
+    action: 'observe',
+    highlight: true,
+    skipable: false
+  }
+
+  it('should accept an element reference as target', () => {
+    const element = createMockElement('ref')
+
+    const onboarding = new Guida({
+      steps: [{ ...baseStep, target: element }],
+      autoStart: false
+    })
+
+    onboarding.start()
+    expect(element.classList.contains('guida-highlight')).toBe(true)
+  })
+
+  it('should treat a detached element reference as missing', () => {
+    const element = document.createElement('div')
+    const onboarding = new Guida({
+      steps: [{ ...baseStep, target: element }],
+      autoStart: false
+    })
+
+    const notFoundHandler = vi.fn()
+    onboarding.on('targetNotFound', notFoundHandler)
+
+    onboarding.start()
+    expect(notFoundHandler).toHaveBeenCalled()
+  })
+
+  it('should accept a sync resolver function as target', () => {
+    createMockElement('row-1')
+    const unread = createMockElement('row-2')
+    unread.dataset.unread = 'true'
+
+    const onboarding = new Guida({
+      steps: [{ ...baseStep, target: () => document.querySelector<HTMLElement>('[data-unread]') }],
+      autoStart: false
+    })
+
+    onboarding.start()
+    expect(unread.classList.contains('guida-highlight')).toBe(true)
+  })
+
+  it('should accept an async resolver function as target', async () => {
+    const element = createMockElement('async')
+
+    const onboarding = new Guida({
+      steps: [{ ...baseStep, target: async () => element }],
+      autoStart: false
+    })
+
+    const stepChangeHandler = vi.fn()
+    onboarding.on('stepChange', stepChangeHandler)
+
+    onboarding.start()
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    expect(stepChangeHandler).toHaveBeenCalled()
+    expect(element.classList.contains('guida-highlight')).toBe(true)
+  })
+
+  it('should re-resolve the target on resize', async () => {
+    const first = createMockElement('first')
+    const second = createMockElement('second')
+    let current = first
+
+    const onboarding = new Guida({
+      steps: [{ ...baseStep, target: () => current }],
+      autoStart: false
+    })
+
+    onboarding.start()
+    expect(first.classList.contains('guida-highlight')).toBe(true)
+
+    current = second
+    window.dispatchEvent(new Event('resize'))
+    await new Promise(resolve => setTimeout(resolve, 20))
+
+    expect(first.classList.contains('guida-highlight')).toBe(false)
+    expect(second.classList.contains('guida-highlight')).toBe(true)
+  })
+})
+
+describe('Shadow DOM Targets', () => {
+  it('should highlight a target inside a shadow root', () => {
+    const host = document.createElement('my-toolbar')
+    const button = document.createElement('button')
+    button.className = 'bold'
+    host.attachShadow({ mode: 'open' }).appendChild(button)
+    document.body.appendChild(host)
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], target: 'my-toolbar >>> .bold' }],
+      autoStart: false
+    })
+
+    onboarding.start()
+    expect(button.classList.contains('guida-highlight')).toBe(true)
+
+    onboarding.close()
+    expect(button.classList.contains('guida-highlight')).toBe(false)
+  })
+})
+
+describe('Multi-Element Spotlight', () => {
+  const groupStep: OnboardingStep = {
+    ...mockSteps[0],
+    target: '#toolbar',
+    additionalTargets: ['#panel', '#missing']
+  }
+
+  function createGroup(): { toolbar: HTMLElement; panel: HTMLElement } {
+    const toolbar = createMockElement('toolbar')
+    const panel = document.createElement('div')
+    panel.id = 'panel'
+    panel.getBoundingClientRect = vi.fn(() => ({
+      top: 300,
+      left: 400,
+      bottom: 500,
+      right: 600,
+      width: 200,
+      height: 200,
+      x: 400,
+      y: 300,
+      toJSON: () => ({})
+    }))
+    document.body.appendChild(panel)
+    return { toolbar, panel }
+  }
+
+  it('should highlight every resolved target', () => {
+    const { toolbar, panel } = createGroup()
+
+    const onboarding = new Guida({ steps: [groupStep], autoStart: false })
+    onboarding.start()
+
+    expect(toolbar.classList.contains('guida-highlight')).toBe(true)
+    expect(panel.classList.contains('guida-highlight')).toBe(true)
+  })
+
+  it('should create one rounded cutout per target', () => {
+    createGroup()
+
+    const onboarding = new Guida({ steps: [groupStep], autoStart: false })
+    onboarding.start()
+
+    const cutouts = document.querySelectorAll('.guida-backdrop mask rect[fill="black"]')
+    expect(cutouts.length).toBe(2)
+  })
+
+  it('should merge targets into one bounding box when requested', () => {
+    createGroup()
+
+    const onboarding = new Guida({
+      steps: [{ ...groupStep, spotlight: { merge: true, padding: 0 } }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    const cutouts = document.querySelectorAll('.guida-backdrop mask rect[fill="black"]')
+    expect(cutouts.length).toBe(1)
+    expect(cutouts[0].getAttribute('x')).toBe('100')
+    expect(cutouts[0].getAttribute('y')).toBe('100')
+    expect(cutouts[0].getAttribute('width')).toBe('500')
+    expect(cutouts[0].getAttribute('height')).toBe('400')
+  })
+
+  it('should use the mask for several sharp cutouts', () => {
+    createGroup()
+
+    const onboarding = new Guida({
+      steps: [{ ...groupStep, spotlight: { borderRadius: 0 } }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    const cutouts = document.querySelectorAll('.guida-backdrop mask rect[fill="black"]')
+    expect(cutouts.length).toBe(2)
+    expect(cutouts[0].getAttribute('rx')).toBe('0')
+  })
+
+  it('should clear highlights of additional targets on close', () => {
+    const { panel } = createGroup()
+
+    const onboarding = new Guida({ steps: [groupStep], autoStart: false })
+    onboarding.start()
+    onboarding.close()
+
+    expect(panel.classList.contains('guida-highlight')).toBe(false)
+  })
+})
+
+describe('Modal Steps', () => {
+  const welcomeStep: OnboardingStep = {
+    title: 'Welcome',
+    description: 'Let us show you around',
+    position: 'bottom',
+    action: 'observe',
+    highlight: false,
+    skipable: true
+  }
+
+  it('should show a step without target as a centered dialog', () => {
+    const onboarding = new Guida({
+      steps: [welcomeStep, mockSteps[0]],
+      autoStart: false
+    })
+
+    const notFoundHandler = vi.fn()
+    onboarding.on('targetNotFound', notFoundHandler)
+
+    onboarding.start()
+
+    const tooltip = document.querySelector('.guida-tooltip')!
+    expect(tooltip.classList.contains('guida-centered')).toBe(true)
+    expect(tooltip.querySelector('.guida-arrow')).toBeFalsy()
+    expect(tooltip.querySelector('.guida-progress')?.textContent).toContain('1 of 2')
+    expect(tooltip.querySelector('.guida-next')).toBeTruthy()
+    expect(notFoundHandler).not.toHaveBeenCalled()
+  })
+
+  it('should cover the page with a backdrop without cutout', async () => {
+    createMockElement('step1')
+
+    const onboarding = new Guida({
+      steps: [mockSteps[0], welcomeStep, mockSteps[0]],
+      autoStart: false
+    })
+
+    onboarding.start()
+    expect(document.querySelector('.guida-backdrop svg')).toBeTruthy()
+
+    onboarding.nextStep()
+    await new Promise(resolve => setTimeout(resolve, 350))
+
+    const backdrop = document.querySelector('.guida-backdrop') as HTMLElement
+    expect(backdrop.querySelector('svg')).toBeFalsy()
+    expect(backdrop.style.clipPath).toBe('none')
+    expect(document.querySelector('#step1')?.classList.contains('guida-highlight')).toBe(false)
+  })
+
+  it('should show previous controls when last in the tour', async () => {
+    createMockElement('step1')
+
+    const onboarding = new Guida({
+      steps: [mockSteps[0], { ...welcomeStep, title: 'Summary' }],
+      autoStart: false
+    })
+
+    onboarding.start()
+    onboarding.nextStep()
+    await new Promise(resolve => setTimeout(resolve, 350))
+
+    const tooltip = document.querySelector('.guida-tooltip')!
+    expect(tooltip.querySelector('h3')?.textContent).toBe('Summary')
+    expect(tooltip.querySelector('.guida-prev')).toBeTruthy()
+    expect(tooltip.querySelector('.guida-next')).toBeFalsy()
+  })
+})
+
+describe('Tooltip Placement', () => {
+  it('should flip the arrow to the side that was chosen', () => {
+    const element = createMockElement('header')
+    element.getBoundingClientRect = vi.fn(() => ({
+      top: 0,
+      left: 100,
+      bottom: 40,
+      right: 600,
+      width: 500,
+      height: 40,
+      x: 100,
+      y: 0,
+      toJSON: () => ({})
+    }))
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], target: '#header', position: 'top' }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    expect(tooltip.dataset.placement).toBe('bottom')
+    expect(tooltip.querySelector('.guida-arrow')?.classList.contains('guida-arrow-bottom')).toBe(true)
+    expect(tooltip.style.top).toBe('60px')
+  })
+})
+
+describe('Aligned Placement', () => {
+  it('should align the tooltip and offset the arrow to the target center', () => {
+    const element = createMockElement('table')
+    element.getBoundingClientRect = vi.fn(() => ({
+      top: 100,
+      left: 100,
+      bottom: 200,
+      right: 700,
+      width: 600,
+      height: 100,
+      x: 100,
+      y: 100,
+      toJSON: () => ({})
+    }))
+
+    const onboarding = new Guida({
+      steps: [{
+        ...mockSteps[0],
+        target: '#table',
+        position: 'bottom-start',
+        offset: { mainAxis: 10, crossAxis: 8 },
+        spotlight: { padding: 0 }
+      }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    const arrow = tooltip.querySelector('.guida-arrow') as HTMLElement
+
+    expect(tooltip.style.left).toBe('108px')
+    expect(tooltip.style.top).toBe('222px')
+    expect(arrow.classList.contains('guida-arrow-bottom')).toBe(true)
+    expect(arrow.style.left).toBe('292px')
+  })
+})
+
+describe('Tooltip Arrow', () => {
+  it('should hide the arrow when the tooltip cannot point at the target', () => {
+    const element = createMockElement('corner')
+    element.getBoundingClientRect = vi.fn(() => ({
+      top: 300,
+      left: 1015,
+      bottom: 340,
+      right: 1024,
+      width: 9,
+      height: 40,
+      x: 1015,
+      y: 300,
+      toJSON: () => ({})
+    }))
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], target: '#corner', position: 'bottom', spotlight: { padding: 0 } }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    const arrow = document.querySelector('.guida-arrow') as HTMLElement
+    expect(arrow.classList.contains('guida-arrow-hidden')).toBe(true)
+  })
+
+  it('should measure the rendered tooltip width for the arrow position', () => {
+    createMockElement('step1')
+    vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockReturnValue(280)
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], spotlight: { padding: 0 } }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    const arrow = tooltip.querySelector('.guida-arrow') as HTMLElement
+    expect(tooltip.style.left).toBe('20px')
+    expect(arrow.style.left).toBe('130px')
+
+    vi.restoreAllMocks()
+  })
+})
+
+describe('Scrolling', () => {
+  function createElementAt(id: string, top: number): { element: HTMLElement; position: { top: number } } {
+    const position = { top }
+    const element = document.createElement('div')
+    element.id = id
+    element.getBoundingClientRect = vi.fn(() => ({
+      top: position.top,
+      left: 100,
+      bottom: position.top + 50,
+      right: 300,
+      width: 200,
+      height: 50,
+      x: 100,
+      y: position.top,
+      toJSON: () => ({})
+    }))
+    document.body.appendChild(element)
+    return { element, position }
+  }
+
+  it('should not scroll targets that are already visible', () => {
+    const scrollBy = vi.fn()
+    window.scrollBy = scrollBy
+    createMockElement('step1')
+
+    const onboarding = new Guida({ steps: [mockSteps[0]], autoStart: false })
+    onboarding.start()
+
+    expect(scrollBy).not.toHaveBeenCalled()
+  })
+
+  it('should keep targets clear of a sticky header and place the step after scrolling', async () => {
+    const { position } = createElementAt('under-header', 10)
+    const scrollBy = vi.fn(({ top }: ScrollToOptions) => {
+      position.top -= top!
+    })
+    window.scrollBy = scrollBy as typeof window.scrollBy
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], target: '#under-header' }],
+      autoStart: false,
+      scroll: { offsetTop: 64, behavior: 'instant' }
+    })
+    onboarding.start()
+
+    const expectedTop = 64 + (768 - 64) / 2 - 25
+    expect(scrollBy).toHaveBeenCalledWith({ left: 0, top: 10 - expectedTop, behavior: 'instant' })
+    expect(document.querySelector('.guida-tooltip')?.classList.contains('guida-visible')).toBe(false)
+
+    await vi.waitFor(() => {
+      const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+      expect(tooltip.classList.contains('guida-visible')).toBe(true)
+      expect(document.querySelector('#under-header')?.classList.contains('guida-highlight')).toBe(true)
+    })
+  })
+
+  it('should scroll a custom container', () => {
+    const windowScrollBy = vi.fn()
+    window.scrollBy = windowScrollBy
+
+    const pane = document.createElement('div')
+    pane.id = 'pane'
+    pane.getBoundingClientRect = vi.fn(() => ({
+      top: 0, left: 0, bottom: 400, right: 1024, width: 1024, height: 400, x: 0, y: 0, toJSON: () => ({})
+    }))
+    const paneScrollBy = vi.fn()
+    pane.scrollBy = paneScrollBy
+    document.body.appendChild(pane)
+    createElementAt('deep', 600)
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], target: '#deep', scroll: { container: '#pane' } }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    expect(paneScrollBy).toHaveBeenCalledWith({ left: 0, top: 425, behavior: 'smooth' })
+    expect(windowScrollBy).not.toHaveBeenCalled()
+  })
+
+  it('should bring a scroll container below the fold into view after scrolling it', () => {
+    const windowScrollBy = vi.fn()
+    window.scrollBy = windowScrollBy
+
+    const pane = document.createElement('div')
+    pane.id = 'pane'
+    pane.getBoundingClientRect = vi.fn(() => ({
+      top: 900, left: 0, bottom: 1300, right: 1024, width: 1024, height: 400, x: 0, y: 900, toJSON: () => ({})
+    }))
+    const paneScrollBy = vi.fn()
+    pane.scrollBy = paneScrollBy
+    document.body.appendChild(pane)
+    createElementAt('deep', 1500)
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], target: '#deep', scroll: { container: '#pane' } }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    expect(paneScrollBy).toHaveBeenCalledWith({ left: 0, top: 425, behavior: 'smooth' })
+    // The target ends up at 1075 inside the pane, centered in the window from there
+    expect(windowScrollBy).toHaveBeenCalledWith({ left: 0, top: 1075 + 25 - 384, behavior: 'smooth' })
+  })
+
+  it('should find panes that only scroll horizontally', () => {
+    const windowScrollBy = vi.fn()
+    window.scrollBy = windowScrollBy
+
+    const pane = document.createElement('div')
+    pane.getBoundingClientRect = vi.fn(() => ({
+      top: 0, left: 0, bottom: 400, right: 500, width: 500, height: 400, x: 0, y: 0, toJSON: () => ({})
+    }))
+    Object.defineProperty(pane, 'scrollWidth', { value: 2000 })
+    Object.defineProperty(pane, 'clientWidth', { value: 500 })
+    const paneScrollBy = vi.fn()
+    pane.scrollBy = paneScrollBy
+    document.body.appendChild(pane)
+
+    const { element } = createElementAt('wide', 100)
+    element.getBoundingClientRect = vi.fn(() => ({
+      top: 100, left: 1200, bottom: 150, right: 1400, width: 200, height: 50, x: 1200, y: 100, toJSON: () => ({})
+    }))
+    pane.appendChild(element)
+
+    const computedStyle = vi.mocked(getComputedStyle).getMockImplementation()
+    vi.mocked(getComputedStyle).mockImplementation((el: Element) => ({
+      getPropertyValue: () => '',
+      overflowX: el === pane ? 'auto' : 'visible',
+      overflowY: el === pane ? 'hidden' : 'visible'
+    }) as unknown as CSSStyleDeclaration)
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], target: '#wide' }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    vi.mocked(getComputedStyle).mockImplementation(computedStyle!)
+
+    expect(paneScrollBy).toHaveBeenCalledWith({ left: 1200 + 100 - 250, top: 0, behavior: 'smooth' })
+    expect(windowScrollBy).not.toHaveBeenCalled()
+  })
+
+  it('should not scroll when scrolling is turned off', () => {
+    const scrollBy = vi.fn()
+    window.scrollBy = scrollBy
+    createElementAt('offscreen', 2000)
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], target: '#offscreen' }],
+      autoStart: false,
+      scroll: false
+    })
+    onboarding.start()
+
+    expect(scrollBy).not.toHaveBeenCalled()
+    expect(document.querySelector('#offscreen')?.classList.contains('guida-highlight')).toBe(true)
+  })
+})
+
+describe('Layout Updates', () => {
+  const nextFrame = () => new Promise(resolve => setTimeout(resolve, 20))
+
+  it('should move the tooltip without rebuilding it on scroll', async () => {
+    const target = createMockElement('step1')
+    const onboarding = new Guida({ steps: mockSteps, autoStart: false })
+    onboarding.start()
+
+    const nextButton = document.querySelector('.guida-next') as HTMLElement
+    nextButton.focus()
+
+    target.getBoundingClientRect = vi.fn(() => ({
+      top: 300, left: 100, bottom: 400, right: 200, width: 100, height: 100, x: 100, y: 300, toJSON: () => ({})
+    }))
+    window.dispatchEvent(new Event('scroll'))
+    await nextFrame()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    expect(document.querySelector('.guida-next')).toBe(nextButton)
+    expect(document.activeElement).toBe(nextButton)
+    expect(tooltip.style.top).toBe(`${400 + 8 + 12}px`)
+  })
+
+  it('should batch several scroll events into one update per frame', async () => {
+    const target = createMockElement('step1')
+    const onboarding = new Guida({ steps: mockSteps, autoStart: false })
+    onboarding.start()
+
+    const getRect = target.getBoundingClientRect as ReturnType<typeof vi.fn>
+    getRect.mockClear()
+
+    window.dispatchEvent(new Event('scroll'))
+    window.dispatchEvent(new Event('scroll'))
+    window.dispatchEvent(new Event('resize'))
+    expect(getRect).not.toHaveBeenCalled()
+
+    await nextFrame()
+    const callsAfterOneUpdate = getRect.mock.calls.length
+    expect(callsAfterOneUpdate).toBeGreaterThan(0)
+
+    window.dispatchEvent(new Event('scroll'))
+    await nextFrame()
+    expect(getRect.mock.calls.length).toBe(callsAfterOneUpdate * 2)
+  })
+
+  it('should reuse the rounded spotlight mask on scroll', async () => {
+    const target = createMockElement('step1')
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], spotlight: { borderRadius: 8 } }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    const mask = document.querySelector('.guida-backdrop mask') as Element
+    expect(mask).not.toBeNull()
+
+    target.getBoundingClientRect = vi.fn(() => ({
+      top: 300, left: 100, bottom: 400, right: 200, width: 100, height: 100, x: 100, y: 300, toJSON: () => ({})
+    }))
+    window.dispatchEvent(new Event('scroll'))
+    await nextFrame()
+
+    expect(document.querySelector('.guida-backdrop mask')).toBe(mask)
+    expect(mask.querySelector('rect.guida-cutout')?.getAttribute('y')).toBe(`${300 - 8}`)
+  })
+})
+
+describe('Step Actions', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+  function createInput(id: string): HTMLInputElement {
+    const input = document.createElement('input')
+    input.id = id
+    document.body.appendChild(input)
+    return input
+  }
+
+  function typeInto(input: HTMLInputElement, value: string) {
+    input.value = value
+    input.dispatchEvent(new Event('input', { bubbles: true }))
+  }
+
+  const secondStep: OnboardingStep = { ...mockSteps[0], target: undefined, title: 'Done' }
+
+  it('should advance after valid input', async () => {
+    const input = createInput('email')
+    const onboarding = new Guida({
+      steps: [
+        {
+          ...mockSteps[0],
+          target: '#email',
+          action: 'input',
+          actionOptions: { validate: (value) => value.includes('@') }
+        },
+        secondStep
+      ],
+      autoStart: false
+    })
+    onboarding.start()
+
+    typeInto(input, 'jane')
+    await wait(600)
+    expect(onboarding.getCurrentStep()?.index).toBe(0)
+
+    typeInto(input, 'jane@example.com')
+    await wait(1100)
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should advance on hover', async () => {
+    const target = createMockElement('menu')
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], target: '#menu', action: 'hover' }, secondStep],
+      autoStart: false
+    })
+    onboarding.start()
+
+    target.dispatchEvent(new MouseEvent('mouseenter'))
+    await wait(600)
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should advance on change', async () => {
+    const select = document.createElement('select')
+    select.id = 'plan'
+    document.body.appendChild(select)
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], target: '#plan', action: 'change' }, secondStep],
+      autoStart: false
+    })
+    onboarding.start()
+
+    select.dispatchEvent(new Event('change', { bubbles: true }))
+    await wait(600)
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should advance on a named custom event', async () => {
+    const target = createMockElement('uploader')
+    const onboarding = new Guida({
+      steps: [
+        { ...mockSteps[0], target: '#uploader', action: 'event', actionOptions: { event: 'upload:done' } },
+        secondStep
+      ],
+      autoStart: false
+    })
+    onboarding.start()
+
+    target.dispatchEvent(new CustomEvent('upload:done'))
+    await wait(600)
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should advance once the waitFor predicate passes after a DOM change', async () => {
+    createMockElement('list')
+    const onboarding = new Guida({
+      steps: [
+        {
+          ...mockSteps[0],
+          target: '#list',
+          action: 'waitFor',
+          actionOptions: { waitFor: () => document.querySelector('.list-item') !== null }
+        },
+        secondStep
+      ],
+      autoStart: false
+    })
+    onboarding.start()
+
+    const item = document.createElement('div')
+    item.className = 'list-item'
+    document.getElementById('list')!.appendChild(item)
+
+    await wait(600)
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should advance when the waitFor predicate already passes', async () => {
+    createMockElement('list')
+    const predicate = vi.fn(() => true)
+    const onboarding = new Guida({
+      steps: [
+        { ...mockSteps[0], target: '#list', action: 'waitFor', actionOptions: { waitFor: predicate } },
+        secondStep
+      ],
+      autoStart: false
+    })
+    onboarding.start()
+
+    expect(predicate).toHaveBeenCalledTimes(1)
+    await wait(600)
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should show a hint for interactive actions', () => {
+    createInput('name')
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], target: '#name', action: 'input' }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    expect(document.querySelector('.guida-hint')?.textContent).toBe('Type in the highlighted field to continue')
+  })
+
+  it('should use a custom hint and hide it when disabled', async () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: [
+        { ...mockSteps[0], action: 'click', actionOptions: { hint: 'Open the menu' } },
+        { ...mockSteps[0], action: 'click', actionOptions: { hint: false } }
+      ],
+      autoStart: false
+    })
+    onboarding.start()
+    expect(document.querySelector('.guida-hint')?.textContent).toBe('Open the menu')
+
+    onboarding.goToStep(1)
+    await wait(350)
+    expect(document.querySelector('.guida-tooltip h3')).not.toBeNull()
+    expect(document.querySelector('.guida-hint')).toBeNull()
+  })
+})
+
+describe('Action Targets', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+  function createCard(): HTMLElement {
+    const card = createMockElement('card')
+    card.innerHTML = '<p>Projects</p><button class="create">Create</button>'
+    return card
+  }
+
+  const steps: OnboardingStep[] = [
+    { ...mockSteps[0], target: '#card', action: 'click', actionTarget: '#card .create' },
+    { ...mockSteps[0], target: undefined, title: 'Done' }
+  ]
+
+  it('should only advance when the action target is clicked', async () => {
+    const card = createCard()
+    const onboarding = new Guida({ steps, autoStart: false })
+    onboarding.start()
+
+    expect(card.classList.contains('guida-highlight')).toBe(true)
+
+    card.querySelector('p')!.click()
+    await wait(600)
+    expect(onboarding.getCurrentStep()?.index).toBe(0)
+
+    card.querySelector<HTMLElement>('.create')!.click()
+    await wait(600)
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should still advance when the action target is re-rendered', async () => {
+    const card = createCard()
+    const onboarding = new Guida({ steps, autoStart: false })
+    onboarding.start()
+
+    card.innerHTML = '<button class="create">Create</button>'
+    card.querySelector<HTMLElement>('.create')!.click()
+
+    await wait(600)
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should stop listening once the step is left', async () => {
+    const card = createCard()
+    const onboarding = new Guida({ steps, autoStart: false })
+    onboarding.start()
+    onboarding.close()
+
+    card.querySelector<HTMLElement>('.create')!.click()
+    await wait(600)
+    expect(onboarding.isActive()).toBe(false)
+  })
+})
+
+describe('Interaction Modes', () => {
+  const instances: Guida[] = []
+
+  // Instances listen on the window, end them so they do not block later tests
+  afterEach(() => {
+    instances.splice(0).forEach((instance) => instance.isActive() && instance.close())
+  })
+
+  function create(config: ConstructorParameters<typeof Guida>[0]): Guida {
+    const instance = new Guida(config)
+    instances.push(instance)
+    return instance
+  }
+
+  function createOutsideButton(): { button: HTMLButtonElement; onClick: ReturnType<typeof vi.fn> } {
+    const button = document.createElement('button')
+    button.id = 'outside'
+    const onClick = vi.fn()
+    button.addEventListener('click', onClick)
+    document.body.appendChild(button)
+    return { button, onClick }
+  }
+
+  function clickAt(element: Element, clientX: number, clientY: number): MouseEvent {
+    const event = new MouseEvent('click', { bubbles: true, cancelable: true, clientX, clientY })
+    element.dispatchEvent(event)
+    return event
+  }
+
+  it('should let clicks through anywhere by default', () => {
+    createMockElement('step1')
+    const { button, onClick } = createOutsideButton()
+
+    const onboarding = create({ steps: mockSteps, autoStart: false })
+    onboarding.start()
+
+    button.click()
+    expect(onClick).toHaveBeenCalled()
+  })
+
+  it('should only let clicks through inside the spotlight in spotlight-only mode', () => {
+    const target = createMockElement('step1')
+    const onTargetClick = vi.fn()
+    target.addEventListener('click', onTargetClick)
+    const { button, onClick } = createOutsideButton()
+
+    const onboarding = create({ steps: mockSteps, autoStart: false, interaction: 'spotlight-only' })
+    onboarding.start()
+
+    const blocked = clickAt(button, 500, 500)
+    expect(onClick).not.toHaveBeenCalled()
+    expect(blocked.defaultPrevented).toBe(true)
+
+    target.click()
+    expect(onTargetClick).toHaveBeenCalled()
+
+    // Inside the padded cutout, but outside the target itself
+    clickAt(button, 95, 95)
+    expect(onClick).toHaveBeenCalledTimes(1)
+  })
+
+  it('should block everything but the tooltip in none mode', () => {
+    const target = createMockElement('step1')
+    const onTargetClick = vi.fn()
+    target.addEventListener('click', onTargetClick)
+
+    const onboarding = create({
+      steps: [{ ...mockSteps[0], interaction: 'none' }],
+      autoStart: false,
+      interaction: 'all'
+    })
+    onboarding.start()
+
+    target.click()
+    expect(onTargetClick).not.toHaveBeenCalled()
+
+    const closeButton = document.querySelector('.guida-close') as HTMLElement
+    closeButton.click()
+    expect(onboarding.isActive()).toBe(false)
+  })
+
+  it('should stop blocking once the tour ends', () => {
+    createMockElement('step1')
+    const { button, onClick } = createOutsideButton()
+
+    const onboarding = create({ steps: mockSteps, autoStart: false, interaction: 'none' })
+    onboarding.start()
+    onboarding.close()
+
+    button.click()
+    expect(onClick).toHaveBeenCalled()
+  })
+
+  it('should close the tour on backdrop clicks when configured', () => {
+    createMockElement('step1')
+    const { button } = createOutsideButton()
+
+    const onboarding = create({ steps: mockSteps, autoStart: false, backdropClick: 'close' })
+    onboarding.start()
+
+    clickAt(button, 500, 500)
+    expect(onboarding.isActive()).toBe(false)
+  })
+
+  it('should move to the next step on backdrop clicks when configured for the step', () => {
+    createMockElement('step1')
+    const { button } = createOutsideButton()
+
+    const onboarding = create({
+      steps: [{ ...mockSteps[0], backdropClick: 'next' }, mockSteps[1]],
+      autoStart: false,
+      backdropClick: 'close'
+    })
+    onboarding.start()
+
+    clickAt(button, 500, 500)
+    expect(onboarding.isActive()).toBe(true)
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should ignore clicks inside the spotlight for backdrop reactions', () => {
+    const target = createMockElement('step1')
+
+    const onboarding = create({ steps: mockSteps, autoStart: false, backdropClick: 'close' })
+    onboarding.start()
+
+    target.click()
+    expect(onboarding.isActive()).toBe(true)
+  })
+
+  it('should forget the spotlight when a step is not highlighted', async () => {
+    createMockElement('step1')
+    const { button } = createOutsideButton()
+
+    const onboarding = create({
+      steps: [mockSteps[0], { ...mockSteps[0], highlight: false }],
+      autoStart: false,
+      backdropClick: 'close'
+    })
+    onboarding.start()
+    onboarding.nextStep()
+    await new Promise(resolve => setTimeout(resolve, 350))
+
+    // Where the first step's cutout was
+    clickAt(button, 150, 150)
+    expect(onboarding.isActive()).toBe(false)
+  })
+})
+
+describe('Keyboard Navigation', () => {
+  const instances: Guida[] = []
+
+  // Instances listen on the document, end them so they do not react in later tests
+  afterEach(() => {
+    instances.splice(0).forEach((instance) => instance.isActive() && instance.close())
+  })
+
+  function create(config: ConstructorParameters<typeof Guida>[0]): Guida {
+    const instance = new Guida(config)
+    instances.push(instance)
+    return instance
+  }
+
+  function press(key: string, target: EventTarget = document.body): KeyboardEvent {
+    const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true })
+    target.dispatchEvent(event)
+    return event
+  }
+
+  const observeSteps: OnboardingStep[] = [
+    { ...mockSteps[0] },
+    { ...mockSteps[0], title: 'Step 2' },
+    { ...mockSteps[0], title: 'Step 3' }
+  ]
+
+  it('should navigate with the arrow keys and Enter', async () => {
+    createMockElement('step1')
+    const onboarding = create({ steps: observeSteps, autoStart: false })
+    const onNavigation = vi.fn()
+    onboarding.on('stepNavigation', onNavigation)
+    onboarding.start()
+
+    const event = press('ArrowRight')
+    expect(event.defaultPrevented).toBe(true)
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+    expect(onNavigation).toHaveBeenCalledWith(expect.objectContaining({ direction: 'next', fromStep: 0, toStep: 1 }))
+
+    await new Promise(resolve => setTimeout(resolve, 350))
+    press('ArrowLeft')
+    expect(onboarding.getCurrentStep()?.index).toBe(0)
+
+    await new Promise(resolve => setTimeout(resolve, 350))
+    press('Enter')
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should close with Escape', () => {
+    createMockElement('step1')
+    const onClose = vi.fn()
+    const onboarding = create({ steps: observeSteps, autoStart: false, callbacks: { onClose } })
+    onboarding.start()
+
+    press('Escape')
+    expect(onboarding.isActive()).toBe(false)
+    expect(onClose).toHaveBeenCalled()
+  })
+
+  it('should not skip actions that have no Next button', () => {
+    createMockElement('step2')
+    const onboarding = create({ steps: [mockSteps[1], mockSteps[0]], autoStart: false })
+    onboarding.start()
+
+    press('ArrowRight')
+    expect(onboarding.getCurrentStep()?.index).toBe(0)
+  })
+
+  it('should ignore keys typed in text fields', () => {
+    createMockElement('step1')
+    const input = document.createElement('input')
+    document.body.appendChild(input)
+
+    const onboarding = create({ steps: observeSteps, autoStart: false })
+    onboarding.start()
+
+    press('ArrowRight', input)
+    press('Escape', input)
+    expect(onboarding.isActive()).toBe(true)
+    expect(onboarding.getCurrentStep()?.index).toBe(0)
+  })
+
+  it('should leave the arrow keys to sliders, radio buttons and tabs', () => {
+    createMockElement('step1')
+    const slider = document.createElement('input')
+    slider.type = 'range'
+    const tablist = document.createElement('div')
+    tablist.setAttribute('role', 'tablist')
+    const tab = document.createElement('button')
+    tab.setAttribute('role', 'tab')
+    tablist.appendChild(tab)
+    document.body.append(slider, tablist)
+
+    const onboarding = create({ steps: observeSteps, autoStart: false })
+    onboarding.start()
+
+    expect(press('ArrowRight', slider).defaultPrevented).toBe(false)
+    expect(press('ArrowRight', tab).defaultPrevented).toBe(false)
+    expect(onboarding.getCurrentStep()?.index).toBe(0)
+
+    press('Escape', slider)
+    expect(onboarding.isActive()).toBe(false)
+  })
+
+  it('should use custom bindings', () => {
+    createMockElement('step1')
+    const onboarding = create({
+      steps: observeSteps,
+      autoStart: false,
+      keyboard: { next: ['n'], close: ['q'] }
+    })
+    onboarding.start()
+
+    press('ArrowRight')
+    expect(onboarding.getCurrentStep()?.index).toBe(0)
+
+    press('n')
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should navigate steps with a custom tooltip renderer', async () => {
+    createMockElement('step1')
+    const renderTooltip = ({ step }: { step: OnboardingStep }) => {
+      const heading = document.createElement('h3')
+      heading.textContent = step.title as string
+      return heading
+    }
+    const onboarding = create({
+      steps: [...observeSteps, { ...mockSteps[0], title: 'Step 4', action: 'click' }],
+      autoStart: false,
+      renderTooltip
+    })
+    onboarding.start()
+
+    press('ArrowRight')
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+
+    await new Promise(resolve => setTimeout(resolve, 350))
+    press('ArrowLeft')
+    expect(onboarding.getCurrentStep()?.index).toBe(0)
+
+    // The click step waits for its action, so the key does not skip it
+    onboarding.goToStep(3)
+    await new Promise(resolve => setTimeout(resolve, 350))
+    press('ArrowRight')
+    expect(onboarding.getCurrentStep()?.index).toBe(3)
+
+    press('Escape')
+    expect(onboarding.isActive()).toBe(false)
+  })
+
+  it('should turn keyboard navigation off', () => {
+    createMockElement('step1')
+    const onboarding = create({ steps: observeSteps, autoStart: false, keyboard: false })
+    onboarding.start()
+
+    press('Escape')
+    expect(onboarding.isActive()).toBe(true)
+  })
+})
+
+describe('Accessibility', () => {
+  const instances: Guida[] = []
+
+  // Instances listen on the document, end them so they do not react in later tests
+  afterEach(() => {
+    instances.splice(0).forEach((instance) => instance.isActive() && instance.close())
+  })
+
+  function create(config: ConstructorParameters<typeof Guida>[0]): Guida {
+    const instance = new Guida(config)
+    instances.push(instance)
+    return instance
+  }
+
+  const modalStep: OnboardingStep = { ...mockSteps[0], target: undefined, title: 'Welcome' }
+
+  it('should render the tooltip as a dialog labelled by the title and described by the description', () => {
+    createMockElement('step1')
+    const onboarding = create({ steps: mockSteps, autoStart: false })
+    onboarding.start()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    expect(tooltip.getAttribute('role')).toBe('dialog')
+    expect(document.getElementById(tooltip.getAttribute('aria-labelledby')!)?.textContent).toBe('Step 1')
+    expect(document.getElementById(tooltip.getAttribute('aria-describedby')!)?.textContent).toBe('First step description')
+  })
+
+  it('should move focus into the tooltip and announce the step', () => {
+    createMockElement('step1')
+    const onboarding = create({ steps: mockSteps, autoStart: false })
+    onboarding.start()
+
+    expect(document.activeElement).toBe(document.querySelector('.guida-tooltip'))
+
+    const liveRegion = document.querySelector('.guida-live-region') as HTMLElement
+    expect(liveRegion.getAttribute('aria-live')).toBe('polite')
+    expect(liveRegion.textContent).toBe('Step 1 of 2')
+  })
+
+  it('should return focus to the previously focused element when the tour ends', () => {
+    createMockElement('step1')
+    const trigger = document.createElement('button')
+    document.body.appendChild(trigger)
+    trigger.focus()
+
+    const onboarding = create({ steps: mockSteps, autoStart: false })
+    onboarding.start()
+    expect(document.activeElement).not.toBe(trigger)
+
+    onboarding.close()
+    expect(document.activeElement).toBe(trigger)
+    expect(document.querySelector('.guida-live-region')).toBeNull()
+  })
+
+  it('should trap focus inside modal dialogs', () => {
+    const outside = document.createElement('button')
+    document.body.appendChild(outside)
+
+    const onboarding = create({ steps: [modalStep, mockSteps[0]], autoStart: false })
+    onboarding.start()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    expect(tooltip.getAttribute('aria-modal')).toBe('true')
+
+    const buttons = tooltip.querySelectorAll<HTMLElement>('button')
+    const last = buttons[buttons.length - 1]
+    last.focus()
+    const tab = new KeyboardEvent('keydown', { key: 'Tab', bubbles: true, cancelable: true })
+    last.dispatchEvent(tab)
+    expect(tab.defaultPrevented).toBe(true)
+    expect(document.activeElement).toBe(buttons[0])
+
+    outside.focus()
+    expect(tooltip.contains(document.activeElement)).toBe(true)
+  })
+
+  it('should not trap focus when the page can be used', () => {
+    createMockElement('step1')
+    const outside = document.createElement('button')
+    document.body.appendChild(outside)
+
+    const onboarding = create({ steps: mockSteps, autoStart: false })
+    onboarding.start()
+
+    expect(document.querySelector('.guida-tooltip')?.getAttribute('aria-modal')).toBe('false')
+    outside.focus()
+    expect(document.activeElement).toBe(outside)
+  })
+})
+
+describe('Step Hooks', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+  it('should wait for beforeShow before rendering the step', async () => {
+    let resolveHook: () => void = () => { }
+    const beforeShow = vi.fn(() => new Promise<void>(resolve => { resolveHook = resolve }))
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], beforeShow }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    // The target only exists once the hook has run
+    expect(beforeShow).toHaveBeenCalledWith(expect.objectContaining({ title: 'Step 1' }), 0)
+    expect(document.querySelector('.guida-overlay')?.classList.contains('guida-loading')).toBe(true)
+    expect(document.querySelector('.guida-tooltip')?.getAttribute('aria-busy')).toBe('true')
+
+    createMockElement('step1')
+    resolveHook()
+    await wait(0)
+
+    expect(document.querySelector('.guida-overlay')?.classList.contains('guida-loading')).toBe(false)
+    expect(document.querySelector('.guida-tooltip')?.classList.contains('guida-visible')).toBe(true)
+    expect(document.querySelector('#step1')?.classList.contains('guida-highlight')).toBe(true)
+  })
+
+  it('should run synchronous hooks without delaying the step', () => {
+    createMockElement('step1')
+    const calls: string[] = []
+
+    const onboarding = new Guida({
+      steps: [{
+        ...mockSteps[0],
+        beforeShow: () => { calls.push('beforeShow') },
+        afterShow: () => { calls.push('afterShow') }
+      }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    expect(calls).toEqual(['beforeShow', 'afterShow'])
+    expect(document.querySelector('.guida-tooltip')?.classList.contains('guida-visible')).toBe(true)
+  })
+
+  it('should run beforeLeave before navigating and ignore navigation while it runs', async () => {
+    createMockElement('step1')
+    createMockElement('step2')
+    let resolveHook: () => void = () => { }
+    const beforeLeave = vi.fn(() => new Promise<void>(resolve => { resolveHook = resolve }))
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], beforeLeave }, mockSteps[1]],
+      autoStart: false
+    })
+    onboarding.start()
+
+    onboarding.nextStep()
+    onboarding.nextStep()
+    expect(beforeLeave).toHaveBeenCalledTimes(1)
+    expect(onboarding.getCurrentStep()?.index).toBe(0)
+
+    resolveHook()
+    await wait(0)
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should run beforeLeave when the tour is closed', () => {
+    createMockElement('step1')
+    const beforeLeave = vi.fn()
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], beforeLeave }],
+      autoStart: false
+    })
+    onboarding.start()
+    onboarding.close()
+
+    expect(beforeLeave).toHaveBeenCalledTimes(1)
+    expect(onboarding.isActive()).toBe(false)
+  })
+
+  it('should report a failing beforeShow hook and end the tour cleanly', async () => {
+    const error = new Error('Could not load demo data')
+    const onError = vi.fn()
+
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], beforeShow: () => Promise.reject(error) }],
+      autoStart: false
+    })
+    onboarding.on('error', onError)
+    onboarding.start()
+    await wait(0)
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ error, stepIndex: 0, hook: 'beforeShow' }))
+    expect(onboarding.isActive()).toBe(false)
+    expect(document.querySelector('.guida-overlay')).toBeNull()
+    expect(document.querySelector('.guida-tooltip')).toBeNull()
+  })
+
+  it('should report failing afterShow and beforeLeave hooks without blocking the tour', () => {
+    createMockElement('step1')
+    createMockElement('step2')
+    const onError = vi.fn()
+
+    const onboarding = new Guida({
+      steps: [
+        {
+          ...mockSteps[0],
+          afterShow: () => { throw new Error('afterShow') },
+          beforeLeave: () => { throw new Error('beforeLeave') }
+        },
+        mockSteps[1]
+      ],
+      autoStart: false
+    })
+    onboarding.on('error', onError)
+    onboarding.start()
+    onboarding.nextStep()
+
+    expect(onError.mock.calls.map(([data]) => data.hook)).toEqual(['afterShow', 'beforeLeave'])
+    expect(onboarding.getCurrentStep()?.index).toBe(1)
+  })
+
+  it('should drop a pending beforeShow hook when the tour is closed', async () => {
+    let resolveHook: () => void = () => { }
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], beforeShow: () => new Promise<void>(resolve => { resolveHook = resolve }) }],
+      autoStart: false
+    })
+    onboarding.start()
+    onboarding.close()
+
+    createMockElement('step1')
+    resolveHook()
+    await wait(0)
+
+    expect(document.querySelector('.guida-tooltip')).toBeNull()
+    expect(document.querySelector('#step1')?.classList.contains('guida-highlight')).toBe(false)
+  })
+
+  it('should not show the next step when closed during the transition', async () => {
+    createMockElement('step1')
+    const beforeShow = vi.fn()
+    const onStepChange = vi.fn()
+    const onComplete = vi.fn()
+    const onboarding = new Guida({
+      steps: [
+        mockSteps[0],
+        {
+          ...mockSteps[0],
+          beforeShow,
+          action: 'waitFor',
+          actionOptions: { waitFor: () => document.querySelector('.late-item') !== null }
+        }
+      ],
+      autoStart: false
+    })
+    onboarding.on('stepChange', onStepChange)
+    onboarding.on('complete', onComplete)
+    onboarding.start()
+    onStepChange.mockClear()
+
+    onboarding.nextStep()
+    onboarding.close()
+    await wait(350)
+
+    expect(beforeShow).not.toHaveBeenCalled()
+    expect(onStepChange).not.toHaveBeenCalled()
+
+    const item = document.createElement('div')
+    item.className = 'late-item'
+    document.body.appendChild(item)
+    await wait(600)
+
+    expect(onComplete).not.toHaveBeenCalled()
+  })
+})
+
+describe('Navigation Guards', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+  const threeSteps: OnboardingStep[] = [
+    { ...mockSteps[0] },
+    { ...mockSteps[0], title: 'Step 2' },
+    { ...mockSteps[0], title: 'Step 3' }
+  ]
+
+  function startTour(): Guida {
+    createMockElement('step1')
+    const onboarding = new Guida({ steps: threeSteps, autoStart: false })
+    onboarding.start()
+    return onboarding
+  }
+
+  it('should pass the requested change to guards', () => {
+    const onboarding = startTour()
+    const guard = vi.fn(() => true)
+    onboarding.on('beforeStepChange', guard)
+
+    onboarding.nextStep()
+    expect(guard).toHaveBeenCalledWith({ currentStepIndex: 0, nextStepIndex: 1, direction: 'next' })
+    expect(onboarding.getCurrentStep().index).toBe(1)
+  })
+
+  it('should cancel navigation when a guard returns false', () => {
+    const onboarding = startTour()
+    const onNavigation = vi.fn()
+    onboarding.on('stepNavigation', onNavigation)
+    onboarding.on('beforeStepChange', () => false)
+
+    onboarding.nextStep()
+    onboarding.goToStep(2)
+    onboarding.close()
+
+    expect(onboarding.getCurrentStep().index).toBe(0)
+    expect(onboarding.isActive()).toBe(true)
+    expect(onNavigation).not.toHaveBeenCalled()
+  })
+
+  it('should wait for async guards', async () => {
+    const onboarding = startTour()
+    let formIsValid = false
+    onboarding.on('beforeStepChange', async ({ direction }) => direction !== 'next' || formIsValid)
+
+    onboarding.nextStep()
+    await wait(0)
+    expect(onboarding.getCurrentStep().index).toBe(0)
+
+    formIsValid = true
+    onboarding.nextStep()
+    expect(onboarding.getCurrentStep().index).toBe(0)
+    await wait(0)
+    expect(onboarding.getCurrentStep().index).toBe(1)
+  })
+
+  it('should redirect to the step index a guard returns and report the final step', () => {
+    const onboarding = startTour()
+    const onNavigation = vi.fn()
+    onboarding.on('stepNavigation', onNavigation)
+    onboarding.on('beforeStepChange', ({ nextStepIndex }) => (nextStepIndex === 1 ? 2 : true))
+
+    onboarding.nextStep()
+
+    expect(onboarding.getCurrentStep().index).toBe(2)
+    expect(onNavigation).toHaveBeenCalledWith(expect.objectContaining({ direction: 'next', fromStep: 0, toStep: 2 }))
+  })
+
+  it('should let a guard turn closing into a step change', () => {
+    const onboarding = startTour()
+    onboarding.on('beforeStepChange', ({ direction }) => (direction === 'close' ? 2 : true))
+
+    onboarding.close()
+
+    expect(onboarding.isActive()).toBe(true)
+    expect(onboarding.getCurrentStep().index).toBe(2)
+  })
+
+  it('should cancel navigation and report guards that throw', () => {
+    const onboarding = startTour()
+    const onError = vi.fn()
+    onboarding.on('error', onError)
+    onboarding.on('beforeStepChange', () => {
+      throw new Error('Guard failed')
+    })
+
+    onboarding.nextStep()
+
+    expect(onboarding.getCurrentStep().index).toBe(0)
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ hook: 'beforeStepChange', stepIndex: 0 }))
+  })
+
+  it('should stop guarding once the guard is removed', () => {
+    const onboarding = startTour()
+    const guard = () => false
+    onboarding.on('beforeStepChange', guard)
+    onboarding.off('beforeStepChange', guard)
+
+    onboarding.nextStep()
+    expect(onboarding.getCurrentStep().index).toBe(1)
+  })
+})
+
+describe('Conditional Steps', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+  const progressText = () => document.querySelector('.guida-progress span')?.textContent
+
+  const steps = (when: OnboardingStep['when']): OnboardingStep[] => [
+    { ...mockSteps[0], title: 'Step 1' },
+    { ...mockSteps[0], title: 'Step 2', when },
+    { ...mockSteps[0], title: 'Step 3' }
+  ]
+
+  it('should skip steps whose predicate returns false', async () => {
+    createMockElement('step1')
+    const when = vi.fn(() => false)
+    const onboarding = new Guida({ steps: steps(when), autoStart: false })
+    onboarding.start()
+
+    // Predicates only run when their step is reached
+    expect(when).not.toHaveBeenCalled()
+    expect(progressText()).toBe('1 of 3')
+
+    onboarding.nextStep()
+    await wait(350)
+
+    expect(onboarding.getCurrentStep().index).toBe(2)
+    expect(document.querySelector('.guida-tooltip h3')?.textContent).toBe('Step 3')
+    expect(progressText()).toBe('2 of 2')
+  })
+
+  it('should skip backwards when going to the previous step', async () => {
+    createMockElement('step1')
+    const onboarding = new Guida({ steps: steps(() => false), autoStart: false })
+    onboarding.start()
+    onboarding.goToStep(2)
+    await wait(350)
+
+    onboarding.previousStep()
+    await wait(350)
+
+    expect(onboarding.getCurrentStep().index).toBe(0)
+  })
+
+  it('should pass the tour context to predicates', async () => {
+    createMockElement('step1')
+    const when = vi.fn(({ data }) => data.isPremium === true)
+    const onboarding = new Guida({ steps: steps(when), autoStart: false, data: { isPremium: true } })
+    onboarding.start()
+
+    onboarding.nextStep()
+    await wait(350)
+
+    expect(when).toHaveBeenCalledWith(expect.objectContaining({ stepIndex: 1, direction: 'next', data: { isPremium: true } }))
+    expect(onboarding.getCurrentStep().index).toBe(1)
+    expect(progressText()).toBe('2 of 3')
+  })
+
+  it('should wait for async predicates', async () => {
+    createMockElement('step1')
+    let resolveWhen: (value: boolean) => void = () => { }
+    const onboarding = new Guida({
+      steps: steps(() => new Promise<boolean>(resolve => { resolveWhen = resolve })),
+      autoStart: false
+    })
+    onboarding.start()
+    onboarding.nextStep()
+    await wait(350)
+
+    expect(document.querySelector('.guida-overlay')?.classList.contains('guida-loading')).toBe(true)
+
+    resolveWhen(true)
+    await wait(0)
+    expect(document.querySelector('.guida-tooltip h3')?.textContent).toBe('Step 2')
+  })
+
+  it('should skip the step and report predicates that throw', async () => {
+    createMockElement('step1')
+    const onError = vi.fn()
+    const onboarding = new Guida({
+      steps: steps(() => {
+        throw new Error('Not ready')
+      }),
+      autoStart: false
+    })
+    onboarding.on('error', onError)
+    onboarding.start()
+    onboarding.nextStep()
+    await wait(350)
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ hook: 'when', stepIndex: 1 }))
+    expect(onboarding.getCurrentStep().index).toBe(2)
+  })
+})
+
+describe('Branching', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+  const title = () => document.querySelector('.guida-tooltip h3')?.textContent
+
+  const steps: OnboardingStep[] = [
+    {
+      ...mockSteps[0],
+      id: 'role',
+      title: 'Pick a role',
+      choices: [
+        { label: 'Developer', next: 'api' },
+        { label: 'Designer', next: 'theme' }
+      ]
+    },
+    { ...mockSteps[0], id: 'api', title: 'API keys', next: 'done' },
+    { ...mockSteps[0], id: 'theme', title: 'Themes' },
+    { ...mockSteps[0], id: 'done', title: 'Done', previous: 'api' }
+  ]
+
+  it('should render choice buttons instead of the Next button', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({ steps, autoStart: false })
+    onboarding.start()
+
+    const choices = document.querySelectorAll('.guida-choice')
+    expect(Array.from(choices).map(choice => choice.textContent)).toEqual(['Developer', 'Designer'])
+    expect(document.querySelector('.guida-next')).toBeNull()
+  })
+
+  it('should jump to the step a choice leads to', async () => {
+    createMockElement('step1')
+    const onStepNavigation = vi.fn()
+    const onboarding = new Guida({ steps, autoStart: false })
+    onboarding.on('stepNavigation', onStepNavigation)
+    onboarding.start()
+
+    ;(document.querySelectorAll('.guida-choice')[1] as HTMLButtonElement).click()
+    await wait(350)
+
+    expect(title()).toBe('Themes')
+    expect(onStepNavigation).toHaveBeenCalledWith(expect.objectContaining({ direction: 'next', fromStep: 0, toStep: 2 }))
+  })
+
+  it('should follow the next step id and go back along the path taken', async () => {
+    createMockElement('step1')
+    const onboarding = new Guida({ steps, autoStart: false })
+    onboarding.start()
+
+    ;(document.querySelectorAll('.guida-choice')[0] as HTMLButtonElement).click()
+    await wait(350)
+    onboarding.nextStep()
+    await wait(350)
+    expect(title()).toBe('Done')
+
+    onboarding.previousStep()
+    await wait(350)
+    expect(title()).toBe('API keys')
+
+    onboarding.previousStep()
+    await wait(350)
+    expect(title()).toBe('Pick a role')
+  })
+
+  it('should count progress along the path taken and the path ahead', async () => {
+    createMockElement('step1')
+    const progress = () => document.querySelector('.guida-progress span')?.textContent
+    const onboarding = new Guida({ steps, autoStart: false })
+    onboarding.start()
+    expect(progress()).toBe('1 of 3')
+
+    ;(document.querySelectorAll('.guida-choice')[1] as HTMLButtonElement).click()
+    await wait(350)
+    expect(title()).toBe('Themes')
+    expect(progress()).toBe('2 of 3')
+
+    onboarding.nextStep()
+    await wait(350)
+    expect(title()).toBe('Done')
+    expect(progress()).toBe('3 of 3')
+  })
+
+  it('should go to steps by id and fall back to the declared previous step', async () => {
+    createMockElement('step1')
+    const onboarding = new Guida({ steps, autoStart: false })
+    onboarding.start()
+
+    onboarding.goToStep('done')
+    await wait(350)
+    expect(title()).toBe('Done')
+
+    // The jump from the first step is not a path to go back along
+    onboarding.previousStep()
+    await wait(350)
+    expect(title()).toBe('API keys')
+  })
+
+  it('should warn about unknown step ids', () => {
+    createMockElement('step1')
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => { })
+    const onboarding = new Guida({ steps, autoStart: false })
+    onboarding.start()
+
+    onboarding.goToStep('missing')
+
+    expect(warn).toHaveBeenCalledWith('Spotlight Onboarding: Step not found: missing')
+    expect(onboarding.getCurrentStep().index).toBe(0)
+    warn.mockRestore()
+  })
+})
+
+describe('Custom Buttons', () => {
+  it('should render custom buttons with their variant', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: [{
+        ...mockSteps[0],
+        buttons: [
+          { label: 'Docs', variant: 'text', onClick: () => { } },
+          { label: 'Later', onClick: () => { } }
+        ]
+      }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    const buttons = document.querySelectorAll('.guida-custom')
+    expect(Array.from(buttons).map(button => button.textContent)).toEqual(['Docs', 'Later'])
+    expect(buttons[0].classList.contains('guida-btn-text')).toBe(true)
+    expect(buttons[1].classList.contains('guida-btn-secondary')).toBe(true)
+  })
+
+  it('should call the handler with the instance and the step', () => {
+    createMockElement('step1')
+    const onClick = vi.fn((guida: Guida) => guida.close())
+    const step = { ...mockSteps[0], buttons: [{ label: 'Not now', variant: 'primary' as const, onClick }] }
+    const onboarding = new Guida({ steps: [step, mockSteps[1]], autoStart: false })
+    onboarding.start()
+
+    ;(document.querySelector('.guida-custom') as HTMLButtonElement).click()
+
+    expect(onClick).toHaveBeenCalledWith(onboarding, step, 0)
+    expect(onboarding.isActive()).toBe(false)
+  })
+
+  it('should relabel and hide built-in buttons', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: [
+        { ...mockSteps[0], skipable: true, controls: { next: 'Continue', skip: false, close: 'Exit' } },
+        mockSteps[1]
+      ],
+      autoStart: false
+    })
+    onboarding.start()
+
+    expect(document.querySelector('.guida-next')?.textContent).toBe('Continue')
+    expect(document.querySelector('.guida-close')?.textContent).toBe('Exit')
+    expect(document.querySelector('.guida-skip')).toBeNull()
+  })
+})
+
+describe('Custom Tooltip Rendering', () => {
+  it('should render the tooltip with a custom renderer and keep the arrow', () => {
+    createMockElement('step1')
+    const renderTooltip = vi.fn(({ step, current, total }) => `<div class="my-tooltip"><strong>${step.title}</strong> ${current}/${total}</div>`)
+    const onboarding = new Guida({ steps: mockSteps, autoStart: false, renderTooltip })
+    onboarding.start()
+
+    expect(renderTooltip).toHaveBeenCalledWith(expect.objectContaining({ stepIndex: 0, current: 1, total: 2, isFirstStep: true }))
+    expect(document.querySelector('.guida-tooltip .my-tooltip')?.textContent).toBe('Step 1 1/2')
+    expect(document.querySelector('.guida-tooltip .guida-tooltip-content')).toBeNull()
+    expect(document.querySelector('.guida-tooltip .guida-arrow')).toBeTruthy()
+    expect(document.querySelector('.guida-tooltip')?.getAttribute('aria-label')).toBe('Step 1')
+  })
+
+  it('should prefer the step renderer and pass navigation actions', async () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: [
+        {
+          ...mockSteps[0],
+          renderTooltip: ({ actions }) => {
+            const button = document.createElement('button')
+            button.className = 'my-next'
+            button.addEventListener('click', actions.next)
+            return button
+          }
+        },
+        mockSteps[1]
+      ],
+      autoStart: false,
+      renderTooltip: () => '<div class="global"></div>'
+    })
+    onboarding.start()
+
+    expect(document.querySelector('.guida-tooltip .global')).toBeNull()
+    ;(document.querySelector('.my-next') as HTMLButtonElement).click()
+
+    expect(onboarding.getCurrentStep().index).toBe(1)
+  })
+
+  it('should replace parts of the default layout with slots', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], slots: { body: ({ step }) => `<em>${step.description}</em>` } }],
+      autoStart: false,
+      slots: { progress: ({ current, total }) => `${Math.round(current / total * 100)}%` }
+    })
+    onboarding.start()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    expect(tooltip.querySelector('.guida-progress')?.textContent).toBe('100%')
+    expect(tooltip.querySelector('.guida-description em')?.textContent).toBe('First step description')
+    expect(tooltip.querySelector('.guida-title')?.textContent).toBe('Step 1')
+    expect(tooltip.getAttribute('aria-describedby')).toBe(tooltip.querySelector('.guida-description')?.id)
+  })
+})
+
+describe('Content Rendering', () => {
+  const payload = '<img src="x" onerror="window.hacked = true"><script>window.hacked = true</script><strong onclick="alert(1)">Bold</strong>'
+
+  it('should render titles and descriptions as plain text by default', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({ steps: [{ ...mockSteps[0], title: '<em>Title</em>', description: payload }], autoStart: false })
+    onboarding.start()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    expect(tooltip.querySelector('.guida-title')?.textContent).toBe('<em>Title</em>')
+    expect(tooltip.querySelector('.guida-description')?.textContent).toBe(payload)
+    expect(tooltip.querySelector('img, script, strong, em')).toBeNull()
+  })
+
+  it('should sanitize markup in html mode', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({ steps: [{ ...mockSteps[0], description: payload }], autoStart: false, contentMode: 'html' })
+    onboarding.start()
+
+    const description = document.querySelector('.guida-description') as HTMLElement
+    expect(description.innerHTML).toBe('<strong>Bold</strong>')
+    expect(description.querySelector('[onclick], [onerror], script, img')).toBeNull()
+    expect((window as any).hacked).toBeUndefined()
+  })
+
+  it('should not let html content pass for a built-in button', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], controls: { close: false }, description: '<a class="guida-close">Close</a>' }],
+      autoStart: false,
+      contentMode: 'html'
+    })
+    onboarding.start()
+
+    ;(document.querySelector('.guida-description a') as HTMLElement).click()
+    expect(document.querySelector('.guida-close')).toBeNull()
+    expect(onboarding.isActive()).toBe(true)
+  })
+
+  it('should insert DOM nodes built by the app', () => {
+    createMockElement('step1')
+    const description = document.createElement('span')
+    description.className = 'custom-description'
+    description.textContent = 'Built by the app'
+    const onboarding = new Guida({ steps: [{ ...mockSteps[0], description }], autoStart: false })
+    onboarding.start()
+
+    expect(document.querySelector('.guida-description .custom-description')).toBe(description)
+  })
+
+  it('should escape button labels', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], controls: { close: '<img src=x onerror=alert(1)>' } }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    const close = document.querySelector('.guida-close') as HTMLElement
+    expect(close.textContent).toBe('<img src=x onerror=alert(1)>')
+    expect(close.querySelector('img')).toBeNull()
+  })
+})
+
+describe('Step Media', () => {
+  it('should show media above the title and place the tooltip again once loaded', async () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: [{ ...mockSteps[0], position: 'top', media: { type: 'image', src: '/demo.png', alt: 'Demo' } }],
+      autoStart: false
+    })
+    onboarding.start()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    const image = tooltip.querySelector('.guida-tooltip-content > .guida-media:first-child img') as HTMLImageElement
+    expect(image.alt).toBe('Demo')
+
+    const offsetHeight = vi.spyOn(tooltip, 'offsetHeight', 'get').mockReturnValue(50)
+    const top = tooltip.style.top
+    image.dispatchEvent(new Event('load'))
+    await new Promise(resolve => setTimeout(resolve, 20))
+
+    expect(offsetHeight).toHaveBeenCalled()
+    expect(tooltip.style.top).not.toBe(top)
+    offsetHeight.mockRestore()
+  })
+})
+
+describe('Theming', () => {
+  it('should set the theme variables on the overlay and the tooltip', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: mockSteps,
+      autoStart: false,
+      theme: { preset: 'high-contrast', primaryColor: '#6200ee' }
+    })
+    onboarding.start()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    const overlay = document.querySelector('.guida-overlay') as HTMLElement
+    expect(tooltip.style.getPropertyValue('--guida-primary-color')).toBe('#6200ee')
+    expect(tooltip.style.getPropertyValue('--guida-tooltip-border')).toBe('2px solid #000000')
+    expect(overlay.style.getPropertyValue('--guida-loader-color')).toBe('#ffffff')
+  })
+
+  it('should scope the highlight variables to a class instead of writing them onto targets', () => {
+    const element = createMockElement('step1')
+    const onboarding = new Guida({ steps: mockSteps, autoStart: false, theme: { highlightColor: '#6200ee' } })
+    onboarding.start()
+
+    const highlightClass = Array.from(element.classList).find((name) => /^guida-highlight-\d+$/.test(name))
+    const rule = Array.from(document.head.querySelectorAll('style')).find((style) => style.textContent?.startsWith(`.${highlightClass} `))
+    expect(element.getAttribute('style')).toBeNull()
+    expect(rule?.textContent).toContain('--guida-highlight-color: #6200ee;')
+
+    onboarding.close()
+    expect(element.classList.contains(highlightClass!)).toBe(false)
+    expect(rule?.isConnected).toBe(false)
+  })
+
+  it('should color the backdrop from the theme', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: mockSteps,
+      autoStart: false,
+      theme: { backdropColor: '#1a0033' },
+      spotlight: { backdropOpacity: 60, borderRadius: 8 }
+    })
+    onboarding.start()
+
+    const overlay = document.querySelector('.guida-overlay') as HTMLElement
+    const backdrop = overlay.querySelector('.guida-backdrop') as HTMLElement
+    expect(overlay.style.getPropertyValue('--guida-backdrop-color')).toBe('#1a0033')
+    expect(backdrop.style.getPropertyValue('--guida-backdrop-opacity')).toBe('60%')
+    expect(backdrop.style.backgroundColor).toBe('')
+    expect(backdrop.querySelector<SVGRectElement>('svg > rect')?.style.getPropertyValue('fill')).toBe('var(--guida-backdrop-color)')
+  })
+
+  it('should leave the backdrop opacity to the theme unless it is configured', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({ steps: mockSteps, autoStart: false, theme: { preset: 'high-contrast' } })
+    onboarding.start()
+
+    const overlay = document.querySelector('.guida-overlay') as HTMLElement
+    const backdrop = overlay.querySelector('.guida-backdrop') as HTMLElement
+    expect(overlay.style.getPropertyValue('--guida-backdrop-opacity')).toBe('90%')
+    expect(backdrop.style.getPropertyValue('--guida-backdrop-opacity')).toBe('')
+  })
+
+  it('should leave the variables to the stylesheet without a theme', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({ steps: mockSteps, autoStart: false })
+    onboarding.start()
+
+    expect((document.querySelector('.guida-tooltip') as HTMLElement).getAttribute('style')).not.toContain('--guida-')
+  })
+})
+
+describe('Completion Screen', () => {
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+  it('should show the configured title, body and icon', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: mockSteps,
+      autoStart: false,
+      completion: { title: 'Welcome aboard', body: 'Your workspace is ready.', icon: '🚀' }
+    })
+    onboarding.start()
+    onboarding.complete()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    expect(tooltip.querySelector('.guida-completion-icon')?.textContent).toBe('🚀')
+    expect(tooltip.querySelector('.guida-completion h3')?.textContent).toBe('Welcome aboard')
+    expect(tooltip.querySelector('.guida-completion p')?.textContent).toBe('Your workspace is ready.')
+  })
+
+  it('should end the tour at once when turned off', () => {
+    createMockElement('step1')
+    const onComplete = vi.fn()
+    const onboarding = new Guida({ steps: mockSteps, autoStart: false, completion: false })
+    onboarding.on('complete', onComplete)
+    onboarding.start()
+    onboarding.complete()
+
+    expect(onComplete).toHaveBeenCalled()
+    expect(onboarding.isActive()).toBe(false)
+    expect(document.querySelector('.guida-tooltip')).toBeNull()
+  })
+
+  it('should close after the configured duration', async () => {
+    createMockElement('step1')
+    const onboarding = new Guida({ steps: mockSteps, autoStart: false, completion: { duration: 50 } })
+    onboarding.start()
+    onboarding.complete()
+
+    expect(document.querySelector('.guida-completion')).toBeTruthy()
+    await wait(70)
+    expect(document.querySelector('.guida-tooltip')).toBeNull()
+  })
+
+  it('should stay until closed by hand and not emit close', async () => {
+    createMockElement('step1')
+    const onClose = vi.fn()
+    const onboarding = new Guida({ steps: mockSteps, autoStart: false, completion: { duration: false } })
+    onboarding.on('close', onClose)
+    onboarding.start()
+    onboarding.complete()
+    await wait(50)
+
+    ;(document.querySelector('.guida-completion .guida-close') as HTMLButtonElement).click()
+
+    expect(document.querySelector('.guida-tooltip')).toBeNull()
+    expect(onClose).not.toHaveBeenCalled()
+  })
+
+  it('should call completion buttons with the instance', () => {
+    createMockElement('step1')
+    const onClick = vi.fn()
+    const onboarding = new Guida({
+      steps: mockSteps,
+      autoStart: false,
+      completion: { duration: false, buttons: [{ label: 'Start next tour', onClick }] }
+    })
+    onboarding.start()
+    onboarding.complete()
+
+    const button = document.querySelector('.guida-completion-button') as HTMLButtonElement
+    expect(button.textContent).toBe('Start next tour')
+    button.click()
+    expect(onClick).toHaveBeenCalledWith(onboarding)
+    onboarding.close()
+  })
+
+  it('should render a custom completion screen', () => {
+    createMockElement('step1')
+    const onboarding = new Guida({
+      steps: mockSteps,
+      autoStart: false,
+      completion: { title: 'Done', duration: false, render: () => '<div class="my-completion">All done</div>' }
+    })
+    onboarding.start()
+    onboarding.complete()
+
+    const tooltip = document.querySelector('.guida-tooltip') as HTMLElement
+    expect(tooltip.querySelector('.my-completion')?.textContent).toBe('All done')
+    expect(tooltip.getAttribute('aria-label')).toBe('Done')
+    onboarding.close()
+  })
+
+  it('should ignore navigation while the completion screen is shown', async () => {
+    createMockElement('step1')
+    const onStepChange = vi.fn()
+    const onboarding = new Guida({ steps: mockSteps, autoStart: false, completion: { duration: false } })
+    onboarding.start()
+    onboarding.complete()
+    onboarding.on('stepChange', onStepChange)
+
+    onboarding.goToStep(0)
+    await wait(350)
+
+    expect(onStepChange).not.toHaveBeenCalled()
+    expect(document.querySelector('.guida-completion')).toBeTruthy()
+    onboarding.close()
+    expect(document.querySelector('.guida-tooltip')).toBeNull()
+  })
+})
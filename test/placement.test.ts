@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import { computePlacement, type PlacementOptions } from '../src/placement'
+
+function rect(left: number, top: number, width: number, height: number) {
+  return { left, top, right: left + width, bottom: top + height, width, height }
+}
+
+function overlaps(a: ReturnType<typeof rect>, b: ReturnType<typeof rect>): boolean {
+  return a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top
+}
+
+const baseOptions: Omit<PlacementOptions, 'reference' | 'preferred'> = {
+  tooltip: { width: 300, height: 150 },
+  viewport: { width: 1000, height: 800 },
+  gap: 12,
+  margin: 20
+}
+
+describe('computePlacement', () => {
+  it('should use the preferred side when it fits', () => {
+    const placement = computePlacement({ ...baseOptions, reference: rect(400, 300, 200, 100), preferred: 'bottom' })
+
+    expect(placement).toEqual({ side: 'bottom', left: 350, top: 412, arrowOffset: 150 })
+  })
+
+  it('should flip to the opposite side when the preferred side has no room', () => {
+    const placement = computePlacement({ ...baseOptions, reference: rect(400, 40, 200, 100), preferred: 'top' })
+
+    expect(placement.side).toBe('bottom')
+    expect(placement.top).toBe(152)
+  })
+
+  it('should try the remaining sides when both preferred and opposite have no room', () => {
+    const reference = rect(50, 100, 200, 600)
+    const placement = computePlacement({ ...baseOptions, reference, preferred: 'top' })
+
+    expect(placement.side).toBe('right')
+    expect(placement.left).toBe(262)
+  })
+
+  it('should pick the side with the most room for auto', () => {
+    const placement = computePlacement({ ...baseOptions, reference: rect(50, 300, 100, 100), preferred: 'auto' })
+
+    expect(placement.side).toBe('right')
+  })
+
+  it('should keep the tooltip in the viewport along the cross axis', () => {
+    const placement = computePlacement({ ...baseOptions, reference: rect(900, 300, 80, 40), preferred: 'bottom' })
+
+    expect(placement.side).toBe('bottom')
+    expect(placement.left).toBe(680)
+  })
+
+  it('should never overlap the reference when any side fits', () => {
+    const references = [rect(0, 0, 200, 200), rect(800, 600, 200, 200), rect(400, 0, 200, 300), rect(0, 350, 500, 100)]
+
+    references.forEach((reference) => {
+      ;(['top', 'bottom', 'left', 'right', 'auto'] as const).forEach((preferred) => {
+        const placement = computePlacement({ ...baseOptions, reference, preferred })
+        const tooltip = rect(placement.left, placement.top, 300, 150)
+        expect(overlaps(tooltip, reference)).toBe(false)
+      })
+    })
+  })
+
+  it('should stay inside the viewport when no side fits', () => {
+    const placement = computePlacement({ ...baseOptions, reference: rect(0, 0, 1000, 800), preferred: 'top' })
+
+    expect(placement.left).toBeGreaterThanOrEqual(20)
+    expect(placement.top).toBeGreaterThanOrEqual(20)
+    expect(placement.top).toBeLessThanOrEqual(800 - 150 - 20)
+  })
+  describe('alignment', () => {
+    const reference = rect(100, 300, 600, 60)
+
+    it('should align the tooltip with the start of the reference', () => {
+      const placement = computePlacement({ ...baseOptions, reference, preferred: 'bottom', alignment: 'start' })
+
+      expect(placement.left).toBe(100)
+      expect(placement.arrowOffset).toBe(300)
+    })
+
+    it('should align the tooltip with the end of the reference', () => {
+      const placement = computePlacement({ ...baseOptions, reference, preferred: 'top', alignment: 'end' })
+
+      expect(placement.left).toBe(400)
+      expect(placement.arrowOffset).toBe(0)
+    })
+
+    it('should align vertically for left and right sides', () => {
+      const tall = rect(400, 100, 100, 500)
+
+      expect(computePlacement({ ...baseOptions, reference: tall, preferred: 'left', alignment: 'start' }).top).toBe(100)
+      expect(computePlacement({ ...baseOptions, reference: tall, preferred: 'right', alignment: 'end' }).top).toBe(450)
+    })
+
+    it('should keep the alignment when flipping', () => {
+      const placement = computePlacement({ ...baseOptions, reference: rect(100, 40, 600, 60), preferred: 'top', alignment: 'start' })
+
+      expect(placement.side).toBe('bottom')
+      expect(placement.left).toBe(100)
+    })
+
+    it('should apply the cross axis offset and keep the arrow on the reference center', () => {
+      const placement = computePlacement({ ...baseOptions, reference, preferred: 'bottom', alignment: 'start', crossOffset: 20 })
+
+      expect(placement.left).toBe(120)
+      expect(placement.arrowOffset).toBe(280)
+    })
+  })
+  describe('arrow', () => {
+    it('should point at the reference center after the tooltip is clamped', () => {
+      const placement = computePlacement({ ...baseOptions, reference: rect(940, 300, 40, 40), preferred: 'bottom', arrowPadding: 20 })
+
+      expect(placement.left).toBe(680)
+      expect(placement.arrowOffset).toBe(280)
+    })
+
+    it('should keep the arrow away from the tooltip corners while on the reference', () => {
+      const placement = computePlacement({ ...baseOptions, reference: rect(100, 300, 600, 60), preferred: 'top', alignment: 'end', arrowPadding: 20 })
+
+      expect(placement.arrowOffset).toBe(20)
+    })
+
+    it('should hide the arrow when it cannot reach the reference', () => {
+      const placement = computePlacement({ ...baseOptions, reference: rect(975, 300, 20, 40), preferred: 'bottom', arrowPadding: 20 })
+
+      expect(placement.left).toBe(680)
+      expect(placement.arrowOffset).toBeNull()
+    })
+
+    it('should hide the arrow when no side fits and the tooltip covers the reference', () => {
+      const placement = computePlacement({ ...baseOptions, reference: rect(0, 0, 1000, 800), preferred: 'top' })
+
+      expect(placement.arrowOffset).toBeNull()
+    })
+  })
+})
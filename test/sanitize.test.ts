@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { sanitizeHtml, escapeHtml } from '../src/sanitize'
+
+function sanitize(html: string): string {
+  const container = document.createElement('div')
+  container.appendChild(sanitizeHtml(html))
+  return container.innerHTML
+}
+
+describe('Sanitize', () => {
+  describe('sanitizeHtml', () => {
+    it('should keep allowed formatting', () => {
+      expect(sanitize('<strong>Bold</strong> and <em title="note">italic</em><br>')).toBe('<strong>Bold</strong> and <em title="note">italic</em><br>')
+    })
+
+    it('should strip classes', () => {
+      expect(sanitize('<a class="guida-close" href="/docs">Docs</a>')).toBe('<a href="/docs">Docs</a>')
+    })
+
+    it('should remove scripts and styles with their content', () => {
+      expect(sanitize('Hi<script>alert(1)</script><style>body { display: none }</style>')).toBe('Hi')
+    })
+
+    it('should strip event handler attributes', () => {
+      expect(sanitize('<b onclick="alert(1)" onmouseover="alert(2)">Hover</b>')).toBe('<b>Hover</b>')
+      expect(sanitize('<img src="x" onerror="alert(1)">')).toBe('')
+    })
+
+    it('should unwrap elements that are not allowed', () => {
+      expect(sanitize('<div style="color: red"><span>Kept</span></div>')).toBe('<span>Kept</span>')
+      expect(sanitize('<form action="/steal"><button>Go</button></form>')).toBe('Go')
+    })
+
+    it('should drop unsafe links and keep safe ones', () => {
+      expect(sanitize('<a href="javascript:alert(1)">x</a>')).toBe('<a>x</a>')
+      expect(sanitize('<a href=" java\tscript:alert(1)">x</a>')).toBe('<a>x</a>')
+      expect(sanitize('<a href="data:text/html,hi">x</a>')).toBe('<a>x</a>')
+      expect(sanitize('<a href="/docs">x</a>')).toBe('<a href="/docs">x</a>')
+      expect(sanitize('<a href="https://example.com" target="_blank">x</a>')).toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>')
+    })
+
+    it('should remove comments', () => {
+      expect(sanitize('a<!-- hidden -->b')).toBe('ab')
+    })
+  })
+
+  describe('escapeHtml', () => {
+    it('should escape markup characters', () => {
+      expect(escapeHtml('<b title="x">Tom & Jerry\'s</b>')).toBe('&lt;b title=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/b&gt;')
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest'
+import { querySelectorDeep, getViewportRect, resolveTarget, isEventFromTarget } from '../src/targets'
+
+function mockRect(element: Element, left: number, top: number, width: number, height: number): void {
+  element.getBoundingClientRect = vi.fn(() => ({
+    top,
+    left,
+    bottom: top + height,
+    right: left + width,
+    width,
+    height,
+    x: left,
+    y: top,
+    toJSON: () => ({})
+  }))
+}
+
+function createFrame(): HTMLIFrameElement {
+  const frame = document.createElement('iframe')
+  document.body.appendChild(frame)
+  frame.contentDocument!.body.innerHTML = '<button class="save">Save</button>'
+  return frame
+}
+
+describe('Targets', () => {
+  describe('querySelectorDeep', () => {
+    it('should behave like querySelector without the pierce separator', () => {
+      document.body.innerHTML = '<div id="plain"></div>'
+      expect(querySelectorDeep('#plain')).toBe(document.getElementById('plain'))
+      expect(querySelectorDeep('#missing')).toBeNull()
+    })
+
+    it('should pierce open shadow roots', () => {
+      const host = document.createElement('my-toolbar')
+      host.attachShadow({ mode: 'open' }).innerHTML = '<button class="bold">B</button>'
+      document.body.appendChild(host)
+
+      const button = querySelectorDeep('my-toolbar >>> button.bold')
+      expect(button).toBe(host.shadowRoot!.querySelector('button.bold'))
+    })
+
+    it('should pierce nested shadow roots', () => {
+      const outer = document.createElement('my-app')
+      const outerRoot = outer.attachShadow({ mode: 'open' })
+      const inner = document.createElement('my-menu')
+      inner.attachShadow({ mode: 'open' }).innerHTML = '<a class="item">Item</a>'
+      outerRoot.appendChild(inner)
+      document.body.appendChild(outer)
+
+      expect(querySelectorDeep('my-app >>> my-menu >>> .item')).toBe(inner.shadowRoot!.querySelector('.item'))
+    })
+
+    it('should pierce same-origin iframes', () => {
+      const frame = createFrame()
+
+      const button = querySelectorDeep('iframe >>> button.save')
+      expect(button).toBe(frame.contentDocument!.querySelector('button.save'))
+    })
+
+    it('should return null when an intermediate element is not a host or frame', () => {
+      document.body.innerHTML = '<div class="plain"><button class="save"></button></div>'
+      expect(querySelectorDeep('.plain >>> button.save')).toBeNull()
+    })
+
+    it('should be used when resolving selector targets', () => {
+      const host = document.createElement('my-toolbar')
+      host.attachShadow({ mode: 'open' }).innerHTML = '<button class="bold">B</button>'
+      document.body.appendChild(host)
+
+      expect(resolveTarget('my-toolbar >>> .bold')).toBe(host.shadowRoot!.querySelector('.bold'))
+    })
+  })
+
+  describe('getViewportRect', () => {
+    it('should return the bounding rect for top-level elements', () => {
+      const element = document.createElement('div')
+      document.body.appendChild(element)
+      mockRect(element, 10, 20, 30, 40)
+
+      expect(getViewportRect(element)).toEqual({ left: 10, top: 20, right: 40, bottom: 60, width: 30, height: 40 })
+    })
+
+    it('should add the iframe offset for elements inside iframes', () => {
+      const frame = createFrame()
+      mockRect(frame, 100, 200, 500, 400)
+      const button = frame.contentDocument!.querySelector('button.save')!
+      mockRect(button, 10, 20, 30, 40)
+
+      expect(getViewportRect(button)).toEqual({ left: 110, top: 220, right: 140, bottom: 260, width: 30, height: 40 })
+    })
+  })
+  describe('isEventFromTarget', () => {
+    function captureMatch(element: Element, target: Parameters<typeof isEventFromTarget>[1]) {
+      let result: boolean | Promise<boolean> = false
+      const listener = (event: Event) => {
+        result = isEventFromTarget(event, target)
+      }
+      document.addEventListener('click', listener, true)
+      element.dispatchEvent(new MouseEvent('click', { bubbles: true, composed: true }))
+      document.removeEventListener('click', listener, true)
+      return result
+    }
+
+    it('should match events from the target and its descendants', () => {
+      document.body.innerHTML = '<div class="card"><button class="create"><span>Create</span></button><button class="cancel"></button></div>'
+
+      expect(captureMatch(document.querySelector('.create span')!, '.create')).toBe(true)
+      expect(captureMatch(document.querySelector('.cancel')!, '.create')).toBe(false)
+    })
+
+    it('should resolve element and resolver targets when the event fires', async () => {
+      document.body.innerHTML = '<button class="create"></button>'
+      const button = document.querySelector('.create')!
+
+      expect(captureMatch(button, button as HTMLElement)).toBe(true)
+      expect(captureMatch(button, () => document.querySelector<HTMLElement>('.create'))).toBe(true)
+      await expect(captureMatch(button, async () => document.querySelector<HTMLElement>('.create'))).resolves.toBe(true)
+    })
+
+    it('should match targets inside shadow roots', () => {
+      const host = document.createElement('my-toolbar')
+      host.attachShadow({ mode: 'open' }).innerHTML = '<button class="bold">B</button>'
+      document.body.appendChild(host)
+
+      expect(captureMatch(host.shadowRoot!.querySelector('.bold')!, 'my-toolbar >>> .bold')).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { THEME_PRESETS, getThemeVariable, themeToCss, resolveThemeVariables } from '../src/theme'
+import { DEFAULT_STYLES } from '../src/styles'
+
+describe('Theme', () => {
+  it('should name CSS variables after the tokens', () => {
+    expect(getThemeVariable('primaryColor')).toBe('--guida-primary-color')
+    expect(getThemeVariable('arrowSize')).toBe('--guida-arrow-size')
+  })
+
+  it('should define every preset with the same tokens', () => {
+    const tokens = Object.keys(THEME_PRESETS.light).sort()
+    expect(Object.keys(THEME_PRESETS.dark).sort()).toEqual(tokens)
+    expect(Object.keys(THEME_PRESETS['high-contrast']).sort()).toEqual(tokens)
+  })
+
+  it('should declare the default tokens in the stylesheet', () => {
+    expect(themeToCss(THEME_PRESETS.light)).toContain('--guida-tooltip-background: #ffffff;')
+    expect(DEFAULT_STYLES).toContain('--guida-primary-color: #007acc;')
+    expect(DEFAULT_STYLES).toContain('--guida-tooltip-background: #2d2d2d;')
+    expect(DEFAULT_STYLES).not.toMatch(/#007acc;\n\s*color: white/)
+  })
+
+  it('should darken the backdrop through the high-contrast tokens', () => {
+    expect(THEME_PRESETS['high-contrast'].backdropOpacity).toBe('90%')
+    expect(DEFAULT_STYLES).toContain('--guida-backdrop-opacity: 90%;')
+    expect(DEFAULT_STYLES).not.toContain('rgba(0, 0, 0, 0.9)')
+  })
+
+  describe('resolveThemeVariables', () => {
+    it('should only set overridden tokens when following the page scheme', () => {
+      expect(resolveThemeVariables({ primaryColor: '#6200ee' })).toEqual({ '--guida-primary-color': '#6200ee' })
+      expect(resolveThemeVariables({})).toEqual({})
+    })
+
+    it('should set every token of a forced preset, with overrides on top', () => {
+      const variables = resolveThemeVariables({ preset: 'dark', tooltipRadius: '4px' })
+
+      expect(Object.keys(variables)).toHaveLength(Object.keys(THEME_PRESETS.dark).length)
+      expect(variables['--guida-tooltip-background']).toBe('#2d2d2d')
+      expect(variables['--guida-tooltip-radius']).toBe('4px')
+    })
+  })
+})